@@ -1,11 +1,27 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Character, FocusState, SessionType, RewardType, Reward, GreetingMessage } from './types';
-import { IMAGES, CHARACTER_DATA, AUDIO } from './constants';
-import { database, auth } from './firebase';
-
-// This tells TypeScript that a global 'firebase' object exists for ServerValue constants.
-declare var firebase: any;
+import { Character, FocusState, SessionType, Room, IntervalSettings, IntervalSchedule, SessionRecord, DailyStats, DailyStatsByDate, StatsOwner, Goals, DayBoundary, RoomSettings, SessionState, UserStatus, InboxItem, Profile, ProfileAvatar, Profiles, VoiceNoteRef, PartnerMessage, MessageDraft, MessageType, MessageOfType, Reaction, StudyDate, Subject, Task, CompletedTask } from './types';
+import { IMAGES, CHARACTER_DATA } from './constants';
+import { backend, blobStore, deviceStorage } from './backend';
+import { REACTIONS, createMessage } from './messages';
+import { MAX_VOICE_NOTE_BYTES, VoiceRecording, loadVoiceNote, uploadVoiceNote } from './blobs';
+import { DEFAULT_DAY_BOUNDARY, addDays, getCycleDateString, isValidTimeZone, listDates } from './dates';
+import { summarizeRange, summarizeSubjects } from './stats';
+import { serverClock } from './clock';
+import { HEARTBEAT_INTERVAL_MS, IDLE_SESSION, RESUME_GRACE_OPTIONS, computeSessionTotals, getDeviceId, getElapsedSeconds, getLastAliveTime, handOverSession, isInSession, isSessionOwner, isWithinGrace, loadResumeGraceMinutes, pauseSession, recordDistraction, resumeSession, saveResumeGraceMinutes, startSession, toSessionState } from './session';
+import { JournalAction, JournalEntry, createJournalId, sessionJournal } from './journal';
+import { NewSessionRecord, getPartnerCharacter } from './sync';
+import { STREAK_WINDOW_DAYS, Streak, StreakSummary, computeStreaks, meetsGoal } from './goals';
+import { IntervalPhaseInfo, PHASE_LABELS, getIntervalPhase, isBreakPhase, loadIntervalSettings, saveIntervalSettings } from './intervals';
+import { DEFAULT_STUDY_DATE_MINUTES, MAX_STUDY_DATE_TOPIC_LENGTH, NewStudyDate, STUDY_DATE_LENGTH_OPTIONS, formatCountdown, formatDateTime, getDateJointSeconds, getDateRespondent, getDueDate, getSlotEnd, getUpcomingDates, matchJointTime } from './studyDates';
+import { NOTIFICATION_LABELS, NotificationKind, NotificationSettings, getNotificationPermission, loadNotificationSettings, requestNotificationPermission, saveNotificationSettings, showSystemNotification } from './notifications';
+import { MAX_SUBJECT_NAME_LENGTH, NewSubject, SUBJECT_COLORS, SUBJECT_EMOJIS, findSubject, loadLastSubjectId, saveLastSubjectId } from './subjects';
+import { AUTO_PAUSE_OPTIONS, DistractionSettings, MIN_AWAY_MS, getFocusScore, loadDistractionSettings, saveDistractionSettings } from './distractions';
+import { SOUND_LAYERS, SOUND_PRESET_LABELS, SoundLayerId, SoundPreset, Soundscape, getActivePreset, loadSoundscape, saveSoundscape } from './soundscape';
+import { SCENE_PACKS, ScenePack, SceneSprite, findScenePack, getPackImages, loadScenePackId, resolveScene, saveScenePackId } from './scenes';
+import { DEFAULT_PROFILES, MAX_DISPLAY_NAME_LENGTH, MAX_PROFILE_STATUS_LENGTH, PROFILE_AVATARS, PROFILE_EMOJIS, formatProfileName, getDisplayNames } from './profiles';
+import { MIN_PASSWORD_LENGTH, PAIRING_CODE_LENGTH, createRoom, joinRoom, loadSavedRoom, normalizePairingCode, saveRoom } from './rooms';
+import { MAX_PLANNED_MINUTES, MAX_TASK_LENGTH } from './schema';
 
 // --- CUSTOM HOOKS ---
 function usePrevious<T>(value: T): T | undefined {
@@ -16,35 +32,63 @@ function usePrevious<T>(value: T): T | undefined {
   return ref.current;
 }
 
+// Uploads a recording to blob storage, tracking progress and the last error for the UI.
+function useVoiceNoteUpload(roomId: string) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (recording: VoiceRecording): Promise<VoiceNoteRef | null> => {
+    setError(null);
+    setProgress(0);
+    try {
+      return await uploadVoiceNote(blobStore, roomId, recording, setProgress);
+    } catch (err) {
+      console.error("Voice note upload failed:", err);
+      setError(err instanceof Error ? err.message : 'The voice note could not be uploaded.');
+      return null;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return { progress, error, upload };
+}
+
 
 // --- HELPERS & UI COMPONENTS ---
 
-const ConnectionStatusBanner: React.FC<{ isVisible: boolean }> = ({ isVisible }) => {
+const ConnectionStatusBanner: React.FC<{ isVisible: boolean; pendingChanges: number }> = ({ isVisible, pendingChanges }) => {
     if (!isVisible) return null;
     return (
         <div className="fixed top-0 left-0 right-0 bg-red-600 text-white text-center p-2 z-[100] text-xl animate-pulse">
             Connecting...
+            {pendingChanges > 0 && ` ${pendingChanges} session change${pendingChanges === 1 ? '' : 's'} saved on this device, syncing when you're back.`}
         </div>
     );
 };
 
-const getCycleDateString = (timestamp: number): string => {
-    const date = new Date(timestamp);
-    // The cycle starts at 1 AM UTC. So subtract 1 hour to align the date.
-    date.setUTCHours(date.getUTCHours() - 1); 
-    const year = date.getUTCFullYear();
-    const month = (date.getUTCMonth() + 1).toString().padStart(2, '0');
-    const day = date.getUTCDate().toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
+// A short two-note chime generated on the fly, so phase changes are audible without extra assets.
+const playChime = () => {
+    try {
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        const context = new AudioContextClass();
+        [880, 1320].forEach((frequency, index) => {
+            const oscillator = context.createOscillator();
+            const gain = context.createGain();
+            const start = context.currentTime + index * 0.25;
+            oscillator.frequency.value = frequency;
+            gain.gain.setValueAtTime(0.2, start);
+            gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+            oscillator.connect(gain).connect(context.destination);
+            oscillator.start(start);
+            oscillator.stop(start + 0.6);
+        });
+        setTimeout(() => context.close(), 1500);
+    } catch (error) {
+        console.error("Chime could not be played", error);
+    }
 };
 
-const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(blob);
-    reader.onloadend = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-});
-
 const isMobile = (): boolean => /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
 
 
@@ -65,30 +109,128 @@ const PixelButton: React.FC<{ onClick: () => void; children: React.ReactNode; cl
   );
 };
 
-const Timer: React.FC<{ elapsedSeconds: number }> = ({ elapsedSeconds }) => {
-    const formatTime = () => {
-        const totalSeconds = elapsedSeconds > 0 ? elapsedSeconds : 0;
-        const hours = Math.floor(totalSeconds / 3600).toString().padStart(2, '0');
-        const mins = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, '0');
-        const secs = (totalSeconds % 60).toString().padStart(2, '0');
-        return `${hours}:${mins}:${secs}`;
-    };
+const formatClock = (seconds: number) => {
+    const totalSeconds = seconds > 0 ? seconds : 0;
+    const hours = Math.floor(totalSeconds / 3600).toString().padStart(2, '0');
+    const mins = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, '0');
+    const secs = (totalSeconds % 60).toString().padStart(2, '0');
+    return `${hours}:${mins}:${secs}`;
+};
+
+const PhaseLine: React.FC<{ phase: IntervalPhaseInfo }> = ({ phase }) => (
+    <div className={`text-xl ${isBreakPhase(phase.phase) ? 'text-green-300' : 'text-yellow-300'}`}>
+        {isBreakPhase(phase.phase) ? '☕' : '🍅'} {PHASE_LABELS[phase.phase]} {phase.cycle} · {formatClock(phase.remainingSeconds)} left
+    </div>
+);
 
-    return <div className="absolute top-4 right-4 bg-black bg-opacity-50 text-white text-3xl p-4 border-4 border-gray-800">{formatTime()}</div>;
+const GoalRing: React.FC<{ seconds: number; goalMinutes: number; label: string; }> = ({ seconds, goalMinutes, label }) => {
+    const radius = 26;
+    const circumference = 2 * Math.PI * radius;
+    const progress = Math.min(1, seconds / (goalMinutes * 60));
+
+    return (
+        <div className="relative w-20 h-20 bg-black bg-opacity-50 border-4 border-gray-800 flex items-center justify-center" title={`${label}: ${Math.floor(seconds / 60)} of ${goalMinutes} min`}>
+            <svg className="absolute inset-0 w-full h-full -rotate-90" viewBox="0 0 64 64">
+                <circle cx="32" cy="32" r={radius} fill="none" stroke="#383838" strokeWidth="6" />
+                <circle
+                    cx="32" cy="32" r={radius} fill="none"
+                    stroke={progress >= 1 ? '#4ade80' : '#facc15'} strokeWidth="6"
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - progress)}
+                />
+            </svg>
+            <span className="relative text-white text-xl leading-none text-center">{progress >= 1 ? '✔' : `${Math.floor(progress * 100)}%`}<br /><span className="text-sm">{label}</span></span>
+        </div>
+    );
 };
 
-const PartnerTimer: React.FC<{ elapsedSeconds: number; partnerName: string; }> = ({ elapsedSeconds, partnerName }) => {
-    const formatTime = () => {
-        const totalSeconds = elapsedSeconds > 0 ? elapsedSeconds : 0;
-        const hours = Math.floor(totalSeconds / 3600).toString().padStart(2, '0');
-        const mins = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, '0');
-        const secs = (totalSeconds % 60).toString().padStart(2, '0');
-        return `${hours}:${mins}:${secs}`;
-    };
+const SubjectTag: React.FC<{ subject: Subject }> = ({ subject }) => (
+    <div className="text-xl" style={{ color: subject.color }}>{subject.emoji} {subject.name}</div>
+);
+
+const FocusScoreLine: React.FC<{ score: number }> = ({ score }) => (
+    <div className={`text-xl ${score >= 90 ? 'text-green-300' : score >= 70 ? 'text-yellow-300' : 'text-red-300'}`}>🎯 {score}% focus</div>
+);
+
+const Timer: React.FC<{ elapsedSeconds: number; phase: IntervalPhaseInfo | null; subject: Subject | null; focusScore: number | null; }> = ({ elapsedSeconds, phase, subject, focusScore }) => (
+    <div className="bg-black bg-opacity-50 text-white text-3xl p-4 border-4 border-gray-800 text-right">
+        {formatClock(elapsedSeconds)}
+        {subject && <SubjectTag subject={subject} />}
+        {focusScore !== null && <FocusScoreLine score={focusScore} />}
+        {phase && <PhaseLine phase={phase} />}
+    </div>
+);
+
+const PartnerTimer: React.FC<{ elapsedSeconds: number; partnerName: string; phase: IntervalPhaseInfo | null; subject: Subject | null; focusScore: number | null; }> = ({ elapsedSeconds, partnerName, phase, subject, focusScore }) => (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white text-3xl p-4 border-4 border-gray-800 text-center">
+        {partnerName}: {formatClock(elapsedSeconds)}
+        {subject && <SubjectTag subject={subject} />}
+        {focusScore !== null && <FocusScoreLine score={focusScore} />}
+        {phase && <PhaseLine phase={phase} />}
+    </div>
+);
+
+// Chosen before a session starts; the last subject used on this device is preselected.
+const SubjectPicker: React.FC<{
+    subjects: Subject[];
+    selectedId: string | null;
+    onSelect: (subjectId: string | null) => void;
+}> = ({ subjects, selectedId, onSelect }) => (
+    <div className="flex flex-wrap gap-2 justify-center mb-4 text-xl text-white">
+        {[null, ...subjects].map(subject => {
+            const isSelected = (subject?.id ?? null) === selectedId;
+            return (
+                <button
+                    key={subject?.id ?? 'none'}
+                    onClick={() => onSelect(subject?.id ?? null)}
+                    className={`bg-black bg-opacity-50 border-4 px-2 py-1 ${isSelected ? 'border-yellow-400' : 'border-gray-800'}`}
+                    style={subject ? { color: subject.color } : undefined}
+                >
+                    {subject ? `${subject.emoji} ${subject.name}` : 'No subject'}
+                </button>
+            );
+        })}
+    </div>
+);
+
+const IntervalModePicker: React.FC<{
+    isEnabled: boolean;
+    settings: IntervalSettings;
+    onToggle: () => void;
+    onChange: (settings: IntervalSettings) => void;
+}> = ({ isEnabled, settings, onToggle, onChange }) => {
+    const fields: Array<[keyof IntervalSettings, string]> = [
+        ['workMinutes', 'Focus min'],
+        ['shortBreakMinutes', 'Break min'],
+        ['longBreakMinutes', 'Long break min'],
+        ['cyclesBeforeLongBreak', 'Long break every'],
+    ];
 
     return (
-        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white text-3xl p-4 border-4 border-gray-800">
-            {partnerName}: {formatTime()}
+        <div className="mt-4 flex flex-col items-center gap-2 text-white text-xl">
+            <button onClick={onToggle} className="bg-black bg-opacity-40 px-3 py-1 border-2 border-gray-800">
+                {isEnabled ? '🍅 Pomodoro mode' : '⏱️ Stopwatch mode'}
+            </button>
+            {isEnabled && (
+                <div className="grid grid-cols-2 gap-2 bg-black bg-opacity-40 p-2 border-2 border-gray-800">
+                    {fields.map(([field, label]) => (
+                        <label key={field} className="flex items-center justify-between gap-2">
+                            {label}
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_PLANNED_MINUTES}
+                                value={settings[field]}
+                                onChange={(e) => {
+                                    const value = parseInt(e.target.value, 10);
+                                    if (value >= 1) onChange({ ...settings, [field]: Math.min(value, MAX_PLANNED_MINUTES) });
+                                }}
+                                className="w-16 p-1 text-black text-center bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
@@ -103,6 +245,41 @@ const SoundToggleButton: React.FC<{ isMuted: boolean; onToggle: () => void; }> =
     </button>
 );
 
+const MixerButton: React.FC<{ onClick: () => void; }> = ({ onClick }) => (
+    <button
+        onClick={onClick}
+        className="absolute top-4 left-64 z-20 bg-black bg-opacity-50 text-white text-3xl p-3 border-4 border-gray-800"
+        aria-label="Sound mixer"
+    >
+        🎚️
+    </button>
+);
+
+const SettingsButton: React.FC<{ onClick: () => void; }> = ({ onClick }) => (
+    <button
+        onClick={onClick}
+        className="absolute top-4 left-24 z-20 bg-black bg-opacity-50 text-white text-3xl p-3 border-4 border-gray-800"
+        aria-label="Settings"
+    >
+        ⚙️
+    </button>
+);
+
+const InboxButton: React.FC<{ unreadCount: number; onClick: () => void; }> = ({ unreadCount, onClick }) => (
+    <button
+        onClick={onClick}
+        className="absolute top-4 left-44 z-20 bg-black bg-opacity-50 text-white text-3xl p-3 border-4 border-gray-800"
+        aria-label={unreadCount > 0 ? `Inbox, ${unreadCount} unread` : "Inbox"}
+    >
+        💌
+        {unreadCount > 0 && (
+            <span className="absolute -top-3 -right-3 min-w-[2rem] bg-red-600 border-2 border-red-800 text-white text-lg px-1 leading-7 text-center">
+                {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+        )}
+    </button>
+);
+
 const FullscreenButton: React.FC<{ isFullscreen: boolean; onToggle: () => void; }> = ({ isFullscreen, onToggle }) => (
     <button
         onClick={onToggle}
@@ -159,7 +336,7 @@ const AudioPlayer: React.FC<{ src: string }> = ({ src }) => {
     );
 };
 
-const AudioRecorder: React.FC<{ onRecord: (blob: Blob | null) => void; }> = ({ onRecord }) => {
+const AudioRecorder: React.FC<{ onRecord: (recording: VoiceRecording | null) => void; }> = ({ onRecord }) => {
     type Status = 'idle' | 'acquiring_media' | 'recording' | 'recorded' | 'error';
     const [status, setStatus] = useState<Status>('idle');
     const [recordingTime, setRecordingTime] = useState(0);
@@ -171,6 +348,7 @@ const AudioRecorder: React.FC<{ onRecord: (blob: Blob | null) => void; }> = ({ o
     const streamRef = useRef<MediaStream | null>(null);
     const timerIntervalRef = useRef<number | null>(null);
     const chunksRef = useRef<Blob[]>([]);
+    const startedAtRef = useRef(0);
     
     const MAX_RECORDING_TIME_MS = 120 * 1000;
 
@@ -247,7 +425,7 @@ const AudioRecorder: React.FC<{ onRecord: (blob: Blob | null) => void; }> = ({ o
                 } else {
                     const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
                     setAudioBlob(blob);
-                    onRecord(blob);
+                    onRecord({ blob, durationSeconds: Math.round((Date.now() - startedAtRef.current) / 1000) });
                     setStatus('recorded');
                 }
                 
@@ -263,6 +441,7 @@ const AudioRecorder: React.FC<{ onRecord: (blob: Blob | null) => void; }> = ({ o
             };
 
             recorder.start();
+            startedAtRef.current = Date.now();
             setStatus('recording');
             setRecordingTime(0);
             timerIntervalRef.current = window.setInterval(() => {
@@ -341,9 +520,14 @@ const AudioRecorder: React.FC<{ onRecord: (blob: Blob | null) => void; }> = ({ o
     
     if (status === 'recorded' && audioBlob) {
         return (
-            <div className="flex items-center justify-center gap-2 my-2">
-                <AudioPlayer src={objectUrl} />
-                <PixelButton onClick={handleReset} variant="secondary" className="!p-3 text-3xl">🗑️</PixelButton>
+            <div className="my-2">
+                <div className="flex items-center justify-center gap-2">
+                    <AudioPlayer src={objectUrl} />
+                    <PixelButton onClick={handleReset} variant="secondary" className="!p-3 text-3xl">🗑️</PixelButton>
+                </div>
+                {audioBlob.size > MAX_VOICE_NOTE_BYTES && (
+                    <p className="text-red-500 text-lg text-center">This recording is too large to send. Please record a shorter one.</p>
+                )}
             </div>
         );
     }
@@ -358,46 +542,251 @@ const AudioRecorder: React.FC<{ onRecord: (blob: Blob | null) => void; }> = ({ o
 };
 
 
+const SendVoiceNoteButton: React.FC<{
+    recording: VoiceRecording | null;
+    progress: number | null;
+    error: string | null;
+    onSend: () => void;
+}> = ({ recording, progress, error, onSend }) => (
+    <>
+        <PixelButton onClick={onSend} disabled={!recording || recording.blob.size > MAX_VOICE_NOTE_BYTES || progress !== null}>
+            {progress !== null ? `Uploading... ${Math.round(progress * 100)}%` : 'Send Voice Note'}
+        </PixelButton>
+        {error && <p className="text-red-500 text-lg break-words">{error}</p>}
+    </>
+);
+
+// Fetches the voice note from blob storage only once someone asks to hear it.
+const VoiceNotePlayer: React.FC<{ roomId: string; note: VoiceNoteRef }> = ({ roomId, note }) => {
+    const [src, setSrc] = useState<string | null>(null);
+    const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+    useEffect(() => () => {
+        if (src) URL.revokeObjectURL(src);
+    }, [src]);
+
+    const handleLoad = () => {
+        setStatus('loading');
+        loadVoiceNote(blobStore, roomId, note)
+            .then(blob => {
+                setSrc(URL.createObjectURL(blob));
+                setStatus('idle');
+            })
+            .catch((error: Error) => {
+                console.error("Could not load the voice note:", error);
+                setStatus('error');
+            });
+    };
+
+    if (src) return <AudioPlayer src={src} />;
+
+    const duration = `${Math.floor(note.durationSeconds / 60)}:${(note.durationSeconds % 60).toString().padStart(2, '0')}`;
+    return (
+        <div className="my-2 flex flex-col items-center gap-1">
+            <PixelButton onClick={handleLoad} disabled={status === 'loading'} className="!py-2 !text-xl">
+                {status === 'loading' ? 'Loading...' : `🎤 Voice note (${duration})`}
+            </PixelButton>
+            {status === 'error' && <p className="text-red-500 text-lg">Could not load the voice note. Tap to try again.</p>}
+        </div>
+    );
+};
+
+
 // --- SCREENS & MODALS ---
 
-const OnboardingScreen: React.FC<{ onSelect: (character: Character) => void; isSelecting: boolean; }> = ({ onSelect, isSelecting }) => (
+const RoomScreen: React.FC<{
+    onCreate: () => Promise<void>;
+    onJoin: (code: string) => Promise<void>;
+}> = ({ onCreate, onJoin }) => {
+    const [mode, setMode] = useState<'choose' | 'join'>('choose');
+    const [code, setCode] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (mode === 'join') {
+        return (
+            <div className="flex flex-col gap-4 w-full max-w-xs">
+                <p className="text-3xl text-white minecraft-text text-center">Enter your polito's code</p>
+                <input
+                    className="w-full p-2 text-3xl text-center tracking-[0.3em] uppercase bg-[#f3e5ab] text-black border-4 border-[#7a5a3b] focus:outline-none"
+                    placeholder="ABC123"
+                    value={code}
+                    maxLength={PAIRING_CODE_LENGTH}
+                    onChange={(e) => setCode(normalizePairingCode(e.target.value))}
+                />
+                {error && <p className="text-red-700 text-xl text-center break-words">{error}</p>}
+                <PixelButton onClick={() => run(() => onJoin(code))} disabled={isBusy || code.length !== PAIRING_CODE_LENGTH}>
+                    {isBusy ? 'Connecting...' : 'Join Room'}
+                </PixelButton>
+                <PixelButton onClick={() => { setMode('choose'); setError(null); }} variant="secondary" disabled={isBusy}>Back</PixelButton>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-4 w-full max-w-xs">
+            <p className="text-3xl text-white minecraft-text text-center">Pair up with your polito</p>
+            {error && <p className="text-red-700 text-xl text-center break-words">{error}</p>}
+            <PixelButton onClick={() => run(onCreate)} disabled={isBusy}>
+                {isBusy ? 'Connecting...' : 'Create a Room'}
+            </PixelButton>
+            <PixelButton onClick={() => setMode('join')} disabled={isBusy}>I have a code</PixelButton>
+        </div>
+    );
+};
+
+// Used to sign in to a linked identity and to link one; `onSubmit` rejects with a message to show.
+const EmailPasswordForm: React.FC<{
+    title: string;
+    submitLabel: string;
+    hint: string;
+    onSubmit: (email: string, password: string) => Promise<void>;
+}> = ({ title, submitLabel, hint, onSubmit }) => {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await onSubmit(email.trim(), password);
+            setPassword('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <p className="text-2xl text-white minecraft-text">{title}</p>
+            <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email"
+                autoComplete="email"
+                className="w-full p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+            />
+            <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+                autoComplete="current-password"
+                className="w-full p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+            />
+            {error && <p className="text-red-700 text-xl break-words">{error}</p>}
+            <PixelButton
+                onClick={handleSubmit}
+                disabled={isBusy || !email.includes('@') || password.length < MIN_PASSWORD_LENGTH}
+                className="!py-2 !text-xl"
+            >
+                {isBusy ? 'Connecting...' : submitLabel}
+            </PixelButton>
+            <p className="text-lg text-white opacity-80">{hint}</p>
+        </div>
+    );
+};
+
+const OnboardingScreen: React.FC<{
+    room: Room | null;
+    onCreateRoom: () => Promise<void>;
+    onJoinRoom: (code: string) => Promise<void>;
+    onLeaveRoom: () => void;
+    onSelect: (character: Character) => void;
+    isSelecting: boolean;
+    linkedEmail: string | null;
+    onSignInWithEmail: (email: string, password: string) => Promise<void>;
+}> = ({ room, onCreateRoom, onJoinRoom, onLeaveRoom, onSelect, isSelecting, linkedEmail, onSignInWithEmail }) => (
   <div className="w-full min-h-screen flex flex-col justify-center items-center bg-[#f3e5ab] p-4 overflow-y-auto">
     <div className="bg-[#d2b48c] p-8 border-8 border-[#a0522d] shadow-lg flex flex-col items-center">
       <h1 className="text-5xl md:text-7xl text-white minecraft-text text-center mb-6">Who is this Polito?</h1>
       <img src={IMAGES.ONBOARDING_PORTRAITS} alt="Flynn and Rapunzel" className="max-w-xs md:max-w-sm w-full border-8 border-[#a0522d] mb-8" />
-       <p className="text-3xl text-white minecraft-text mb-6">Choose your character</p>
-      <div className="flex flex-col sm:flex-row gap-6">
-        <PixelButton onClick={() => onSelect(Character.Flynn)} disabled={isSelecting}>
-            {isSelecting ? 'Connecting...' : 'I am Flynn'}
-        </PixelButton>
-        <PixelButton onClick={() => onSelect(Character.Rapunzel)} disabled={isSelecting}>
-            {isSelecting ? 'Connecting...' : 'I am Rapunzel'}
-        </PixelButton>
+      {!room ? (
+        <RoomScreen onCreate={onCreateRoom} onJoin={onJoinRoom} />
+      ) : (
+        <>
+          <p className="text-2xl text-white minecraft-text mb-2">Room code</p>
+          <p className="text-5xl text-[#5c3c1a] tracking-[0.3em] bg-[#f3e5ab] px-4 py-1 border-4 border-[#7a5a3b] mb-2">{room.pairingCode}</p>
+          <p className="text-xl text-white mb-6 text-center">Share this code so your polito can join you.</p>
+          <p className="text-3xl text-white minecraft-text mb-6">Choose your character</p>
+          <div className="flex flex-col sm:flex-row gap-6">
+            <PixelButton onClick={() => onSelect(Character.Flynn)} disabled={isSelecting}>
+                {isSelecting ? 'Connecting...' : 'I am Flynn'}
+            </PixelButton>
+            <PixelButton onClick={() => onSelect(Character.Rapunzel)} disabled={isSelecting}>
+                {isSelecting ? 'Connecting...' : 'I am Rapunzel'}
+            </PixelButton>
+          </div>
+          <PixelButton onClick={onLeaveRoom} variant="secondary" className="mt-6 !text-xl !py-2" disabled={isSelecting}>
+            Leave room
+          </PixelButton>
+        </>
+      )}
+      <div className="mt-8 w-full max-w-xs">
+        {linkedEmail ? (
+          <p className="text-xl text-white text-center">Signed in as {linkedEmail}</p>
+        ) : (
+          <EmailPasswordForm
+            title="Linked an email before?"
+            submitLabel="Sign in"
+            hint="Signing in brings back your characters after clearing the browser or on a new device."
+            onSubmit={onSignInWithEmail}
+          />
+        )}
       </div>
     </div>
   </div>
 );
 
-const RewardModal: React.FC<{ from: Character, onSend: (reward: Omit<Reward, 'from'>) => void, onSkip: () => void; }> = ({ from, onSend, onSkip }) => {
+const RewardModal: React.FC<{
+    roomId: string;
+    from: Character;
+    // What got done: the user's session just now, and the partner's ticked items so far.
+    completedTasks: CompletedTask[];
+    partnerDoneTasks: Task[];
+    onPraiseTask: (task: Task) => void;
+    onSend: (draft: MessageDraft) => void;
+    onSkip: () => void;
+}> = ({ roomId, from, completedTasks, partnerDoneTasks, onPraiseTask, onSend, onSkip }) => {
     const [customPraise, setCustomPraise] = useState('');
+    const [praisedTaskIds, setPraisedTaskIds] = useState<string[]>([]);
     const [inputType, setInputType] = useState<'text' | 'voice' | null>(null);
-    const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
+    const [recording, setRecording] = useState<VoiceRecording | null>(null);
+    const voiceUpload = useVoiceNoteUpload(roomId);
 
     const handleSendText = () => {
         if (customPraise.trim()) {
             onSend({
-                type: RewardType.Praise,
-                message: customPraise.trim(),
+                type: 'praise',
+                text: customPraise.trim(),
             });
         }
     };
 
     const handleSendVoice = async () => {
-        if (recordedBlob) {
-            const audioBase64 = await blobToBase64(recordedBlob);
+        if (!recording) return;
+        const note = await voiceUpload.upload(recording);
+        if (note) {
             onSend({
-                type: RewardType.Praise,
-                audioBase64,
+                type: 'voice',
+                note,
             });
         }
     };
@@ -405,7 +794,7 @@ const RewardModal: React.FC<{ from: Character, onSend: (reward: Omit<Reward, 'fr
     const handleBack = () => {
         setInputType(null);
         setCustomPraise('');
-        setRecordedBlob(null);
+        setRecording(null);
     };
 
     const renderContent = () => {
@@ -427,18 +816,45 @@ const RewardModal: React.FC<{ from: Character, onSend: (reward: Omit<Reward, 'fr
         if (inputType === 'voice') {
             return (
                  <div className="flex flex-col gap-4">
-                    <AudioRecorder onRecord={setRecordedBlob} />
-                    <PixelButton onClick={handleSendVoice} disabled={!recordedBlob}>Send Voice Note</PixelButton>
+                    <AudioRecorder onRecord={setRecording} />
+                    <SendVoiceNoteButton recording={recording} progress={voiceUpload.progress} error={voiceUpload.error} onSend={handleSendVoice} />
                     <PixelButton onClick={handleBack} variant="secondary">Back</PixelButton>
                 </div>
             );
         }
         return (
             <div className="grid grid-cols-1 gap-4">
-                <PixelButton onClick={() => onSend({ type: RewardType.Kisses })}>
+                {(completedTasks.length > 0 || partnerDoneTasks.length > 0) && (
+                    <div className="text-left text-white text-xl bg-[#7a5a3b] border-4 border-[#4d3924] p-2 space-y-1">
+                        {completedTasks.length > 0 && (
+                            <>
+                                <p className="text-2xl">You got done:</p>
+                                {completedTasks.map(task => <p key={task.id}>✔ {task.text}</p>)}
+                            </>
+                        )}
+                        {partnerDoneTasks.length > 0 && (
+                            <>
+                                <p className="text-2xl">Your polito got done:</p>
+                                {partnerDoneTasks.map(task => (
+                                    <p key={task.id} className="flex justify-between items-center gap-2">
+                                        <span>✔ {task.text}</span>
+                                        <button
+                                            onClick={() => { onPraiseTask(task); setPraisedTaskIds(prev => [...prev, task.id]); }}
+                                            disabled={praisedTaskIds.includes(task.id)}
+                                            className="bg-[#a0522d] border-2 border-[#4d3924] px-2 disabled:opacity-50 shrink-0"
+                                        >
+                                            {praisedTaskIds.includes(task.id) ? 'Praised 💛' : '👏 Praise'}
+                                        </button>
+                                    </p>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                )}
+                <PixelButton onClick={() => onSend({ type: 'reaction', reaction: 'kisses' })}>
                     <span role="img" aria-label="lips">💋</span> Send Kisses
                 </PixelButton>
-                <PixelButton onClick={() => onSend({ type: RewardType.Hugs })}>
+                <PixelButton onClick={() => onSend({ type: 'reaction', reaction: 'hugs' })}>
                     <span role="img" aria-label="hugging face">🤗</span> Send Hugs
                 </PixelButton>
                 <PixelButton onClick={() => setInputType('text')}>
@@ -454,7 +870,7 @@ const RewardModal: React.FC<{ from: Character, onSend: (reward: Omit<Reward, 'fr
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50">
-            <div className="bg-[#c69a6c] p-8 border-8 border-[#7a5a3b] text-center w-[90%] max-w-md">
+            <div className="bg-[#c69a6c] p-8 border-8 border-[#7a5a3b] text-center w-[90%] max-w-md max-h-[90vh] overflow-y-auto">
                 <h2 className="text-4xl text-white minecraft-text mb-6">Great work! Send your polito some love?</h2>
                 {renderContent()}
             </div>
@@ -463,75 +879,163 @@ const RewardModal: React.FC<{ from: Character, onSend: (reward: Omit<Reward, 'fr
 };
 
 
-const RewardNotification: React.FC<{ 
-    reward: Reward; 
-    onAcknowledge: () => void;
-    onDismiss: () => void;
-    onRespond: (reward: Omit<Reward, 'from'>) => void; 
-}> = ({ reward, onAcknowledge, onDismiss, onRespond }) => {
-  const [isResponding, setIsResponding] = useState(false);
-  const [responseType, setResponseType] = useState<'text' | 'voice' | null>(null);
-  const [responseMessage, setResponseMessage] = useState('');
-  const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
-
-    const getRewardMessage = () => {
-        switch (reward.type) {
-            case RewardType.Kisses: return `sent you kisses!`;
-            case RewardType.Hugs: return `sent you hugs!`;
-            case RewardType.Heart: return `loved your message! 💛`;
-            case RewardType.Praise: {
-                if (reward.message) return `says: "${reward.message}"`;
-                if (reward.audioBase64) return `sent you a voice note!`;
-                return 'sent you praise!'; // Fallback
+// --- PARTNER MESSAGES ---
+
+// What a message body can trigger in the app. Absent when the message is shown in the inbox.
+type MessageActions = {
+    joinSession: () => void;
+    respondToStudyDate: (dateId: string, accept: boolean) => void;
+};
+
+// How the recipient can answer: pick a reaction, send a heart back, or just close it.
+type ReplyStyle = 'reactions' | 'heart' | 'none';
+
+type MessageRenderer<T extends MessageType> = {
+    emoji?: (message: MessageOfType<T>) => string | undefined;
+    // Completes "{name} ..." in notifications and the inbox.
+    describe: (message: MessageOfType<T>) => string;
+    Body?: React.FC<{ message: MessageOfType<T>; roomId: string; actions?: MessageActions }>;
+    replies: (message: MessageOfType<T>) => ReplyStyle;
+    canRespond: boolean;
+    // Which notification setting covers this type while the app is in the background.
+    notificationKind: NotificationKind;
+};
+
+const REACTION_EMOJIS: Record<Reaction, string> = { heart: '💛', kisses: '💋', hugs: '🤗' };
+
+// One entry per message type; adding a type to the protocol means adding its renderer here.
+const MESSAGE_RENDERERS: { [T in MessageType]: MessageRenderer<T> } = {
+    'greeting': {
+        describe: message => `says "${message.text}"`,
+        replies: () => 'reactions',
+        canRespond: true,
+        notificationKind: 'greeting',
+    },
+    'praise': {
+        describe: message => `says: "${message.text}"`,
+        replies: () => 'heart',
+        canRespond: true,
+        notificationKind: 'reward',
+    },
+    'reaction': {
+        emoji: message => message.reaction === 'heart' ? undefined : REACTION_EMOJIS[message.reaction],
+        describe: message => {
+            switch (message.reaction) {
+                case 'kisses': return 'sent you kisses!';
+                case 'hugs': return 'sent you hugs!';
+                case 'heart': return 'loved your message! 💛';
             }
-            default: return '';
-        }
-    };
+        },
+        replies: message => message.reaction === 'heart' ? 'none' : 'heart',
+        canRespond: true,
+        notificationKind: 'reward',
+    },
+    'voice': {
+        describe: () => 'sent you a voice note!',
+        Body: ({ message, roomId }) => <VoiceNotePlayer roomId={roomId} note={message.note} />,
+        replies: () => 'heart',
+        canRespond: true,
+        notificationKind: 'reward',
+    },
+    'nudge': {
+        emoji: () => '👉',
+        describe: () => 'nudged you. Study time?',
+        replies: () => 'reactions',
+        canRespond: true,
+        notificationKind: 'greeting',
+    },
+    'session-invite': {
+        emoji: () => '📨',
+        describe: () => 'invites you to study together!',
+        Body: ({ actions }) => actions ? <PixelButton onClick={actions.joinSession} className="my-2">Join now</PixelButton> : null,
+        replies: () => 'none',
+        canRespond: false,
+        notificationKind: 'greeting',
+    },
+    'text': {
+        describe: message => `says: "${message.text}"`,
+        replies: () => 'heart',
+        canRespond: true,
+        notificationKind: 'greeting',
+    },
+    'study-date': {
+        emoji: () => '📅',
+        describe: message => message.topic ? `asked you on a study date for ${message.topic}!` : 'asked you on a study date!',
+        Body: ({ message, actions }) => (
+            <div className="my-2">
+                <p className="text-2xl">{formatDateTime(message.startTime)} · {message.plannedMinutes} min</p>
+                {actions && (
+                    <div className="flex gap-4 justify-center mt-2">
+                        <PixelButton onClick={() => actions.respondToStudyDate(message.dateId, true)}>Accept</PixelButton>
+                        <PixelButton onClick={() => actions.respondToStudyDate(message.dateId, false)} variant="danger">Decline</PixelButton>
+                    </div>
+                )}
+            </div>
+        ),
+        replies: () => 'none',
+        canRespond: false,
+        notificationKind: 'greeting',
+    },
+};
 
-  const rewardEmojis: Partial<Record<RewardType, string>> = {
-    [RewardType.Hugs]: '🤗',
-    [RewardType.Kisses]: '💋',
-  };
+const getRenderer = (message: PartnerMessage) => MESSAGE_RENDERERS[message.type] as MessageRenderer<MessageType>;
 
-  const emojiToShow = rewardEmojis[reward.type];
+const describeMessage = (message: PartnerMessage): string => getRenderer(message).describe(message);
 
-  const handleSendResponse = async () => {
-    if (responseType === 'text' && responseMessage.trim()) {
-      onRespond({ 
-          type: RewardType.Praise, 
-          message: responseMessage.trim(), 
-      });
-    } else if (responseType === 'voice' && recordedBlob) {
-        const audioBase64 = await blobToBase64(recordedBlob);
-        onRespond({ 
-            type: RewardType.Praise, 
-            audioBase64 
-        });
-    }
-  };
+const MessageBody: React.FC<{ message: PartnerMessage; roomId: string; actions?: MessageActions }> = ({ message, roomId, actions }) => {
+    const { Body } = getRenderer(message);
+    return Body ? <Body message={message} roomId={roomId} actions={actions} /> : null;
+};
+
+const MessageNotification: React.FC<{
+    roomId: string;
+    message: PartnerMessage;
+    actions: MessageActions;
+    onDismiss: () => void;
+    onReply: (draft: MessageDraft) => void;
+    senderName: string;
+}> = ({ roomId, message, actions, onDismiss, onReply, senderName }) => {
+    const [isResponding, setIsResponding] = useState(false);
+    const [responseType, setResponseType] = useState<'text' | 'voice' | null>(null);
+    const [responseMessage, setResponseMessage] = useState('');
+    const [recording, setRecording] = useState<VoiceRecording | null>(null);
+    const voiceUpload = useVoiceNoteUpload(roomId);
+
+    const renderer = getRenderer(message);
+    const emoji = renderer.emoji?.(message);
+    const replies = renderer.replies(message);
+
+    const handleSendResponse = async () => {
+        if (responseType === 'text' && responseMessage.trim()) {
+            onReply({ type: 'text', text: responseMessage.trim() });
+        } else if (responseType === 'voice' && recording) {
+            const note = await voiceUpload.upload(recording);
+            if (note) onReply({ type: 'voice', note });
+        }
+    };
 
     const handleBackFromRespond = () => {
         if (responseType) {
             setResponseType(null);
             setResponseMessage('');
-            setRecordedBlob(null);
+            setRecording(null);
         } else {
             setIsResponding(false);
         }
     };
-    
+
     const renderResponseContent = () => {
         if (responseType === 'text') {
             return (
                  <div className="flex flex-col gap-4">
                     <textarea
-                      className="w-full p-2 text-xl bg-[#d2b48c] text-black border-4 border-[#7a5a3b] focus:outline-none placeholder-gray-600"
-                      placeholder="Thank you!"
-                      value={responseMessage}
-                      onChange={(e) => setResponseMessage(e.target.value)}
-                      rows={3}
+                        className="w-full p-2 text-xl bg-[#d2b48c] text-black border-4 border-[#7a5a3b] focus:outline-none placeholder-gray-600"
+                        placeholder="Thank you!"
+                        value={responseMessage}
+                        onChange={(e) => setResponseMessage(e.target.value)}
+                        rows={3}
                     />
-                    <PixelButton onClick={handleSendResponse}>Send Note</PixelButton>
+                    <PixelButton onClick={handleSendResponse} disabled={!responseMessage.trim()}>Send Note</PixelButton>
                     <PixelButton onClick={handleBackFromRespond} variant="secondary">Back</PixelButton>
                 </div>
             );
@@ -539,8 +1043,8 @@ const RewardNotification: React.FC<{
         if (responseType === 'voice') {
             return (
                  <div className="flex flex-col gap-4">
-                    <AudioRecorder onRecord={setRecordedBlob} />
-                    <PixelButton onClick={handleSendResponse} disabled={!recordedBlob}>Send Voice Note</PixelButton>
+                    <AudioRecorder onRecord={setRecording} />
+                    <SendVoiceNoteButton recording={recording} progress={voiceUpload.progress} error={voiceUpload.error} onSend={handleSendResponse} />
                     <PixelButton onClick={handleBackFromRespond} variant="secondary">Back</PixelButton>
                 </div>
             );
@@ -555,40 +1059,47 @@ const RewardNotification: React.FC<{
         );
     };
 
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 animate-fade-in p-4">
-      <div className="bg-[#f3e5ab] p-8 border-8 border-[#a0522d] text-center w-[90%] max-w-lg">
-        {!isResponding ? (
-          <>
-            {emojiToShow && (
-              <div className="text-8xl mb-4 animate-bounce">
-                {emojiToShow}
-              </div>
-            )}
-            <h2 className="text-4xl md:text-5xl text-[#5c3c1a] minecraft-text mb-4">
-              {reward.from} {getRewardMessage()}
-            </h2>
-            {reward.audioBase64 && <AudioPlayer src={reward.audioBase64} />}
-            <div className="flex justify-center gap-4 mt-4">
-               {reward.type === RewardType.Heart ? (
-                    <PixelButton onClick={onDismiss}>Got it!</PixelButton>
-                ) : (
+    const reactionsToOffer: Reaction[] = replies === 'reactions' ? REACTIONS : replies === 'heart' ? ['heart'] : [];
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 animate-fade-in p-4">
+            <div className="bg-[#f3e5ab] p-8 border-8 border-[#a0522d] text-center w-[90%] max-w-lg">
+                {!isResponding ? (
                     <>
-                        <PixelButton onClick={onAcknowledge} variant="secondary" className="text-4xl !p-3">💛</PixelButton>
-                        <PixelButton onClick={() => setIsResponding(true)}>Respond</PixelButton>
+                        {emoji && (
+                            <div className="text-8xl mb-4 animate-bounce">
+                                {emoji}
+                            </div>
+                        )}
+                        <h2 className="text-4xl md:text-5xl text-[#5c3c1a] minecraft-text mb-4">
+                            {senderName} {renderer.describe(message)}
+                        </h2>
+                        <MessageBody message={message} roomId={roomId} actions={actions} />
+                        <div className="flex flex-col sm:flex-row justify-center items-center gap-4 mt-4">
+                            {reactionsToOffer.length > 0 && (
+                                <div className="flex gap-2">
+                                    {reactionsToOffer.map(reaction => (
+                                        <PixelButton key={reaction} onClick={() => onReply({ type: 'reaction', reaction })} variant="secondary" className="text-4xl !p-3">
+                                            {REACTION_EMOJIS[reaction]}
+                                        </PixelButton>
+                                    ))}
+                                </div>
+                            )}
+                            {renderer.canRespond && <PixelButton onClick={() => setIsResponding(true)}>Respond</PixelButton>}
+                        </div>
+                        <PixelButton onClick={onDismiss} variant="secondary" className="mt-4 !text-xl !py-2">
+                            {replies === 'none' ? 'Got it!' : 'Dismiss'}
+                        </PixelButton>
                     </>
+                ) : (
+                    <div>
+                        <h3 className="text-3xl text-[#5c3c1a] minecraft-text mb-4">Respond to {senderName}:</h3>
+                        {renderResponseContent()}
+                    </div>
                 )}
             </div>
-          </>
-        ) : (
-          <div>
-            <h3 className="text-3xl text-[#5c3c1a] minecraft-text mb-4">Respond to {reward.from}:</h3>
-            {renderResponseContent()}
-          </div>
-        )}
-      </div>
-    </div>
-  );
+        </div>
+    );
 };
 
 const JoinNotification: React.FC<{ partnerName: string }> = ({ partnerName }) => (
@@ -597,6 +1108,12 @@ const JoinNotification: React.FC<{ partnerName: string }> = ({ partnerName }) =>
     </div>
 );
 
+const SyncNotice: React.FC<{ message: string }> = ({ message }) => (
+    <div className="fixed top-5 left-1/2 -translate-x-1/2 z-50 bg-[#a0522d] text-white text-xl px-4 py-2 border-4 border-[#7a5a3b] shadow-[6px_6px_0px_#383838] animate-fade-in-out">
+        {message}
+    </div>
+);
+
 const OfflinePresenceNotification: React.FC<{ partnerName: string }> = ({ partnerName }) => (
     <div className="fixed top-5 left-1/2 -translate-x-1/2 z-50 bg-gray-500 text-white text-xl px-4 py-2 border-4 border-gray-700 shadow-[6px_6px_0px_#383838] animate-fade-in-out">
         {partnerName} is now offline.
@@ -633,110 +1150,76 @@ const OnlinePresenceNotification: React.FC<{
 );
 
 
-const MessageNotification: React.FC<{ 
-    message: GreetingMessage; 
-    onDismiss: () => void;
-    onReact: (rewardType: RewardType.Heart | RewardType.Kisses | RewardType.Hugs) => void; 
-    onRespond: (reward: Omit<Reward, 'from'>) => void;
-}> = ({ message, onDismiss, onReact, onRespond }) => {
-    const [isResponding, setIsResponding] = useState(false);
-    const [responseType, setResponseType] = useState<'text' | 'voice' | null>(null);
-    const [responseMessage, setResponseMessage] = useState('');
-    const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
-
-    const handleSendResponse = async () => {
-        if (responseType === 'text' && responseMessage.trim()) {
-            onRespond({ type: RewardType.Praise, message: responseMessage.trim() });
-        } else if (responseType === 'voice' && recordedBlob) {
-            const audioBase64 = await blobToBase64(recordedBlob);
-            onRespond({ type: RewardType.Praise, audioBase64 });
-        }
-    };
+const GoalInput: React.FC<{ goalMinutes: number | undefined; onSave: (minutes: number | null) => void; }> = ({ goalMinutes, onSave }) => {
+    const [draft, setDraft] = useState(goalMinutes ? goalMinutes.toString() : '');
 
-    const handleBackFromRespond = () => {
-        if (responseType) {
-            setResponseType(null);
-            setResponseMessage('');
-            setRecordedBlob(null);
-        } else {
-            setIsResponding(false);
-        }
-    };
+    useEffect(() => {
+        setDraft(goalMinutes ? goalMinutes.toString() : '');
+    }, [goalMinutes]);
 
-    const renderResponseContent = () => {
-        if (responseType === 'text') {
-            return (
-                 <div className="flex flex-col gap-4">
-                    <textarea
-                        className="w-full p-2 text-xl bg-[#d2b48c] text-black border-4 border-[#7a5a3b] focus:outline-none placeholder-gray-600"
-                        placeholder="Hiiii back!"
-                        value={responseMessage}
-                        onChange={(e) => setResponseMessage(e.target.value)}
-                        rows={3}
-                    />
-                    <PixelButton onClick={handleSendResponse} disabled={!responseMessage.trim()}>Send Note</PixelButton>
-                    <PixelButton onClick={handleBackFromRespond} variant="secondary">Back</PixelButton>
-                </div>
-            );
-        }
-        if (responseType === 'voice') {
-            return (
-                 <div className="flex flex-col gap-4">
-                    <AudioRecorder onRecord={setRecordedBlob} />
-                    <PixelButton onClick={handleSendResponse} disabled={!recordedBlob}>Send Voice Note</PixelButton>
-                    <PixelButton onClick={handleBackFromRespond} variant="secondary">Back</PixelButton>
-                </div>
-            );
-        }
-        // Choose response type
-        return (
-            <div className="flex flex-col gap-4">
-                <PixelButton onClick={() => setResponseType('text')}>📝 Write Response</PixelButton>
-                <PixelButton onClick={() => setResponseType('voice')}>🎤 Record Response</PixelButton>
-                <PixelButton onClick={handleBackFromRespond} variant="secondary">Back</PixelButton>
-            </div>
-        );
+    const commit = () => {
+        const minutes = parseInt(draft, 10);
+        const next = minutes > 0 ? Math.min(minutes, MAX_PLANNED_MINUTES) : null;
+        if (next !== (goalMinutes || null)) onSave(next);
     };
 
     return (
-        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
-            <div className="bg-[#f3e5ab] p-8 border-8 border-[#a0522d] text-center w-[90%] max-w-lg">
-                {!isResponding ? (
-                    <>
-                        <h2 className="text-4xl md:text-5xl text-[#5c3c1a] minecraft-text mb-4">
-                            Your polito says "{message.content}"
-                        </h2>
-                        <div className="flex flex-col sm:flex-row justify-center items-center gap-4 mt-4">
-                            <div className="flex gap-2">
-                                <PixelButton onClick={() => onReact(RewardType.Heart)} className="text-4xl !p-3">💛</PixelButton>
-                                <PixelButton onClick={() => onReact(RewardType.Kisses)} className="text-4xl !p-3">💋</PixelButton>
-                                <PixelButton onClick={() => onReact(RewardType.Hugs)} className="text-4xl !p-3">🤗</PixelButton>
-                            </div>
-                            <PixelButton onClick={() => setIsResponding(true)}>Respond</PixelButton>
-                        </div>
-                        <PixelButton onClick={onDismiss} variant="secondary" className="mt-4 !text-xl !py-2">Dismiss</PixelButton>
-                    </>
-                ) : (
-                    <div>
-                        <h3 className="text-3xl text-[#5c3c1a] minecraft-text mb-4">Respond to {message.from}:</h3>
-                        {renderResponseContent()}
-                    </div>
-                )}
-            </div>
-        </div>
+        <label className="pl-4 flex items-center gap-2">
+            Goal:
+            <input
+                type="number"
+                min={0}
+                max={MAX_PLANNED_MINUTES}
+                placeholder="none"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-20 p-1 text-xl text-black text-center bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+            />
+            min
+        </label>
     );
 };
 
+const StreakLine: React.FC<{ streak: Streak }> = ({ streak }) => (
+    <p className="pl-4">Streak: 🔥 {streak.current} {streak.current === 1 ? 'day' : 'days'} (best {streak.best})</p>
+);
+
+const ProfileAvatarImage: React.FC<{ avatar: ProfileAvatar; className?: string; }> = ({ avatar, className = 'w-10 h-10' }) => (
+    <div
+        className={`${className} shrink-0 border-2 border-[#4d3924] bg-cover`}
+        style={{ backgroundImage: `url("${PROFILE_AVATARS[avatar].src}")`, backgroundPosition: PROFILE_AVATARS[avatar].position, backgroundSize: '250%' }}
+        role="img"
+        aria-label={PROFILE_AVATARS[avatar].label}
+    />
+);
+
+const ProfileHeading: React.FC<{ profile: Profile }> = ({ profile }) => (
+    <div className="flex items-center gap-2">
+        <ProfileAvatarImage avatar={profile.avatar} />
+        <div>
+            <p className="font-bold underline">{formatProfileName(profile)}:</p>
+            {profile.status && <p className="text-lg italic opacity-90">{profile.status}</p>}
+        </div>
+    </div>
+);
 
 const PowerCoupleStats: React.FC<{
     user: Character;
     partner: Character;
+    profiles: Profiles;
     userStats: { today: number; yesterday: number };
     partnerStats: { today: number; yesterday: number };
     jointTime: { today: number; yesterday: number };
+    goals: Goals;
+    streaks: StreakSummary;
+    onGoalChange: (owner: StatsOwner, minutes: number | null) => void;
     isOpen: boolean;
     onToggle: () => void;
-}> = ({ user, partner, userStats, partnerStats, jointTime, isOpen, onToggle }) => {
+    onOpenHistory: () => void;
+    onOpenDashboard: () => void;
+}> = ({ user, partner, profiles, userStats, partnerStats, jointTime, goals, streaks, onGoalChange, isOpen, onToggle, onOpenHistory, onOpenDashboard }) => {
     const formatTime = (totalSeconds: number) => {
         const seconds = Math.floor(totalSeconds);
         const hours = Math.floor(seconds / 3600);
@@ -750,31 +1233,870 @@ const PowerCoupleStats: React.FC<{
                 Power couple stats 🦋
             </PixelButton>
             {isOpen && (
-                <div className="absolute top-full left-0 mt-2 w-72 bg-[#c69a6c] p-4 border-4 border-[#7a5a3b] text-white text-2xl shadow-[6px_6px_0px_#383838]">
+                <div className="absolute top-full left-0 mt-2 w-80 max-h-[70vh] overflow-y-auto bg-[#c69a6c] p-4 border-4 border-[#7a5a3b] text-white text-2xl shadow-[6px_6px_0px_#383838]">
                     <h3 className="text-3xl minecraft-text mb-2 text-center">Power Stats</h3>
                     <div className="space-y-3">
                         <div>
-                            <p className="font-bold underline">{user}:</p>
+                            <ProfileHeading profile={profiles[user]} />
                             <p className="pl-4">Today: {formatTime(userStats.today)}</p>
                             <p className="pl-4">Yesterday: {formatTime(userStats.yesterday)}</p>
+                            <GoalInput goalMinutes={goals[user]} onSave={(minutes) => onGoalChange(user, minutes)} />
+                            <StreakLine streak={streaks[user]} />
                         </div>
                         <div>
-                             <p className="font-bold underline">{partner}:</p>
+                            <ProfileHeading profile={profiles[partner]} />
                             <p className="pl-4">Today: {formatTime(partnerStats.today)}</p>
                             <p className="pl-4">Yesterday: {formatTime(partnerStats.yesterday)}</p>
+                            {goals[partner] && <p className="pl-4">Goal: {goals[partner]} min</p>}
+                            <StreakLine streak={streaks[partner]} />
                         </div>
                          <div>
                              <p className="font-bold underline">Together:</p>
                             <p className="pl-4">Today: {formatTime(jointTime.today)}</p>
                             <p className="pl-4">Yesterday: {formatTime(jointTime.yesterday)}</p>
+                            <GoalInput goalMinutes={goals.joint} onSave={(minutes) => onGoalChange('joint', minutes)} />
+                            <p className="pl-4">Couple streak: 💛 {streaks.couple.current} (best {streaks.couple.best})</p>
+                        </div>
+                    </div>
+                    <PixelButton onClick={onOpenDashboard} className="w-full mt-4 !py-2 !text-xl">Full stats 📊</PixelButton>
+                    <PixelButton onClick={onOpenHistory} className="w-full mt-2 !py-2 !text-xl">See all sessions 📜</PixelButton>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+const getTimeZoneOptions = (current: string): string[] => {
+    const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    return Array.from(new Set(['UTC', deviceZone, current, ...zones]));
+};
+
+const DayBoundarySettings: React.FC<{ boundary: DayBoundary; onSave: (boundary: DayBoundary) => void; }> = ({ boundary, onSave }) => {
+    const [draft, setDraft] = useState<DayBoundary>(boundary);
+
+    useEffect(() => {
+        setDraft(boundary);
+    }, [boundary]);
+
+    const isChanged = draft.timeZone !== boundary.timeZone || draft.rolloverHour !== boundary.rolloverHour;
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-3xl minecraft-text">New day starts at</h3>
+            <div className="flex flex-wrap gap-2 items-center">
+                <select
+                    value={draft.rolloverHour}
+                    onChange={(e) => setDraft({ ...draft, rolloverHour: parseInt(e.target.value, 10) })}
+                    className="p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+                >
+                    {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>{hour.toString().padStart(2, '0')}:00</option>
+                    ))}
+                </select>
+                <select
+                    value={draft.timeZone}
+                    onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })}
+                    className="p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] max-w-[14rem]"
+                >
+                    {getTimeZoneOptions(boundary.timeZone).filter(isValidTimeZone).map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                </select>
+            </div>
+            <p className="text-xl opacity-80">Right now it is {getCycleDateString(serverClock.now(), draft)} for your stats. Both of you share this setting.</p>
+            <PixelButton onClick={() => onSave(draft)} disabled={!isChanged} className="!py-2 !text-xl">Save</PixelButton>
+        </div>
+    );
+};
+
+const ResumeGraceSettings: React.FC<{ minutes: number; onChange: (minutes: number) => void; }> = ({ minutes, onChange }) => (
+    <div className="space-y-2 mt-6">
+        <h3 className="text-3xl minecraft-text">Keep sessions after a disconnect for</h3>
+        <select
+            value={minutes}
+            onChange={(e) => onChange(parseInt(e.target.value, 10))}
+            className="p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+        >
+            {Array.from(new Set([...RESUME_GRACE_OPTIONS, minutes])).sort((a, b) => a - b).map(option => (
+                <option key={option} value={option}>{option} minutes</option>
+            ))}
+        </select>
+        <p className="text-xl opacity-80">Come back within this time and your session carries on. Later, it ends when you left. Only on this device.</p>
+    </div>
+);
+
+const NotificationSettingsSection: React.FC<{
+    settings: NotificationSettings;
+    onChange: (settings: NotificationSettings) => void;
+    permission: NotificationPermission | 'unsupported';
+    onRequestPermission: () => void;
+}> = ({ settings, onChange, permission, onRequestPermission }) => (
+    <div className="space-y-2 mt-6">
+        <h3 className="text-3xl minecraft-text">Notifications</h3>
+        {permission === 'unsupported' && <p className="text-xl opacity-80">This browser cannot show system notifications.</p>}
+        {permission === 'denied' && <p className="text-xl opacity-80">Notifications are blocked. Allow them for this site in your browser settings.</p>}
+        {permission === 'default' && (
+            <PixelButton onClick={onRequestPermission} className="!py-2 !text-xl">Allow notifications</PixelButton>
+        )}
+        {(Object.keys(NOTIFICATION_LABELS) as NotificationKind[]).map(kind => (
+            <label key={kind} className="flex items-center gap-2 text-xl">
+                <input
+                    type="checkbox"
+                    checked={settings[kind]}
+                    disabled={permission !== 'granted'}
+                    onChange={(e) => onChange({ ...settings, [kind]: e.target.checked })}
+                    className="w-5 h-5"
+                />
+                {NOTIFICATION_LABELS[kind]}
+            </label>
+        ))}
+        <p className="text-xl opacity-80">Shown while the app is in the background. Only on this device.</p>
+    </div>
+);
+
+const ProfileSettings: React.FC<{ profile: Profile; onSave: (profile: Profile) => void; }> = ({ profile, onSave }) => {
+    const [draft, setDraft] = useState<Profile>(profile);
+
+    useEffect(() => setDraft(profile), [profile]);
+
+    const isChanged = (Object.keys(profile) as Array<keyof Profile>).some(key => draft[key] !== profile[key]);
+
+    return (
+        <div className="space-y-2 mb-6">
+            <h3 className="text-3xl minecraft-text">My profile</h3>
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={draft.displayName}
+                    maxLength={MAX_DISPLAY_NAME_LENGTH}
+                    onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+                    placeholder="Your name"
+                    aria-label="Display name"
+                    className="flex-1 min-w-0 p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+                />
+                <select
+                    value={draft.emoji}
+                    onChange={(e) => setDraft({ ...draft, emoji: e.target.value })}
+                    aria-label="Emoji"
+                    className="p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+                >
+                    <option value="">none</option>
+                    {PROFILE_EMOJIS.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            </div>
+            <div className="flex gap-2">
+                {(Object.keys(PROFILE_AVATARS) as ProfileAvatar[]).map(avatar => (
+                    <button
+                        key={avatar}
+                        onClick={() => setDraft({ ...draft, avatar })}
+                        className={`border-4 ${draft.avatar === avatar ? 'border-yellow-300' : 'border-transparent'}`}
+                        aria-pressed={draft.avatar === avatar}
+                    >
+                        <ProfileAvatarImage avatar={avatar} className="w-16 h-16" />
+                    </button>
+                ))}
+            </div>
+            <input
+                type="text"
+                value={draft.status}
+                maxLength={MAX_PROFILE_STATUS_LENGTH}
+                onChange={(e) => setDraft({ ...draft, status: e.target.value })}
+                placeholder="Cramming for finals 📚"
+                aria-label="Status"
+                className="w-full p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+            />
+            <PixelButton
+                onClick={() => onSave({ ...draft, displayName: draft.displayName.trim(), status: draft.status.trim() })}
+                disabled={!isChanged || !draft.displayName.trim()}
+                className="w-full !py-2 !text-xl"
+            >
+                Save profile
+            </PixelButton>
+        </div>
+    );
+};
+
+const SubjectSettings: React.FC<{
+    subjects: Subject[];
+    onAdd: (subject: NewSubject) => void;
+    onRemove: (subjectId: string) => void;
+}> = ({ subjects, onAdd, onRemove }) => {
+    const [name, setName] = useState('');
+    const [emoji, setEmoji] = useState(SUBJECT_EMOJIS[0]);
+    const [color, setColor] = useState(SUBJECT_COLORS[0]);
+
+    const handleAdd = () => {
+        if (!name.trim()) return;
+        onAdd({ name: name.trim(), emoji, color });
+        setName('');
+    };
+
+    return (
+        <div className="space-y-2 mt-6">
+            <h3 className="text-3xl minecraft-text">Subjects</h3>
+            {subjects.map(subject => (
+                <div key={subject.id} className="flex justify-between items-center bg-[#7a5a3b] border-2 border-[#4d3924] px-2">
+                    <span style={{ color: subject.color }}>{subject.emoji} {subject.name}</span>
+                    <button onClick={() => onRemove(subject.id)} className="text-xl underline opacity-80">Remove</button>
+                </div>
+            ))}
+            <div className="flex flex-wrap gap-2 items-center">
+                <select value={emoji} onChange={(e) => setEmoji(e.target.value)} className="p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]">
+                    {SUBJECT_EMOJIS.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+                <input
+                    type="text"
+                    value={name}
+                    maxLength={MAX_SUBJECT_NAME_LENGTH}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Organic chemistry"
+                    className="flex-1 min-w-[8rem] p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+                />
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {SUBJECT_COLORS.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setColor(option)}
+                        className={`w-8 h-8 border-4 ${color === option ? 'border-white' : 'border-[#4d3924]'}`}
+                        style={{ backgroundColor: option }}
+                        aria-label={`Colour ${option}`}
+                    />
+                ))}
+            </div>
+            <PixelButton onClick={handleAdd} disabled={!name.trim()} className="!py-2 !text-xl">Add subject</PixelButton>
+            <p className="text-xl opacity-80">Both of you share this list.</p>
+        </div>
+    );
+};
+
+const DistractionSettingsSection: React.FC<{ settings: DistractionSettings; onChange: (settings: DistractionSettings) => void; }> = ({ settings, onChange }) => (
+    <div className="space-y-2 mt-6">
+        <h3 className="text-3xl minecraft-text">Focus tracking</h3>
+        <label className="flex items-center gap-2 text-xl">
+            <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                className="w-5 h-5"
+            />
+            Notice when I leave the app while focusing
+        </label>
+        <label className="flex flex-wrap items-center gap-2 text-xl">
+            Pause after being away for
+            <select
+                value={settings.autoPauseMinutes ?? ''}
+                disabled={!settings.enabled}
+                onChange={(e) => onChange({ ...settings, autoPauseMinutes: e.target.value ? parseInt(e.target.value, 10) : null })}
+                className="p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+            >
+                <option value="">never</option>
+                {AUTO_PAUSE_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes} {minutes === 1 ? 'minute' : 'minutes'}</option>
+                ))}
+            </select>
+        </label>
+        <p className="text-xl opacity-80">Each session gets a focus score, and your polito sees it too. Only on this device.</p>
+    </div>
+);
+
+const ScenePackSettings: React.FC<{ packId: string; onChange: (packId: string) => void; }> = ({ packId, onChange }) => (
+    <div className="space-y-2 mt-6">
+        <h3 className="text-3xl minecraft-text">Scene theme</h3>
+        <select
+            value={packId}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full p-2 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+        >
+            {SCENE_PACKS.map(pack => <option key={pack.id} value={pack.id}>{pack.name}</option>)}
+        </select>
+        <p className="text-xl opacity-80">Only changes how the room looks on this device.</p>
+    </div>
+);
+
+const SettingsPanel: React.FC<{
+    settings: RoomSettings;
+    onDayBoundaryChange: (boundary: DayBoundary) => void;
+    resumeGraceMinutes: number;
+    onResumeGraceChange: (minutes: number) => void;
+    notificationSettings: NotificationSettings;
+    onNotificationSettingsChange: (settings: NotificationSettings) => void;
+    notificationPermission: NotificationPermission | 'unsupported';
+    onRequestNotificationPermission: () => void;
+    subjects: Subject[];
+    onAddSubject: (subject: NewSubject) => void;
+    onRemoveSubject: (subjectId: string) => void;
+    distractionSettings: DistractionSettings;
+    onDistractionSettingsChange: (settings: DistractionSettings) => void;
+    scenePackId: string;
+    onScenePackChange: (packId: string) => void;
+    profile: Profile;
+    onProfileSave: (profile: Profile) => void;
+    linkedEmail: string | null;
+    onLinkEmail: (email: string, password: string) => Promise<void>;
+    onClose: () => void;
+}> = ({
+    settings, onDayBoundaryChange, resumeGraceMinutes, onResumeGraceChange,
+    notificationSettings, onNotificationSettingsChange, notificationPermission, onRequestNotificationPermission,
+    subjects, onAddSubject, onRemoveSubject, distractionSettings, onDistractionSettingsChange,
+    scenePackId, onScenePackChange, profile, onProfileSave, linkedEmail, onLinkEmail, onClose
+}) => (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+        <div className="bg-[#c69a6c] p-6 border-8 border-[#7a5a3b] w-[95%] max-w-lg max-h-[90vh] overflow-y-auto text-white text-2xl">
+            <h2 className="text-4xl minecraft-text mb-4 text-center">Settings ⚙️</h2>
+            <ProfileSettings profile={profile} onSave={onProfileSave} />
+            <div className="mb-6">
+                {linkedEmail ? (
+                    <p className="text-xl">🔒 Linked to {linkedEmail}. Sign in with it to get your character back on any device.</p>
+                ) : (
+                    <EmailPasswordForm
+                        title="Link an email"
+                        submitLabel="Link"
+                        hint="Without one, clearing the browser loses your character and you would have to take it over again."
+                        onSubmit={onLinkEmail}
+                    />
+                )}
+            </div>
+            <DayBoundarySettings boundary={settings.dayBoundary} onSave={onDayBoundaryChange} />
+            <ResumeGraceSettings minutes={resumeGraceMinutes} onChange={onResumeGraceChange} />
+            <DistractionSettingsSection settings={distractionSettings} onChange={onDistractionSettingsChange} />
+            <ScenePackSettings packId={scenePackId} onChange={onScenePackChange} />
+            <NotificationSettingsSection
+                settings={notificationSettings}
+                onChange={onNotificationSettingsChange}
+                permission={notificationPermission}
+                onRequestPermission={onRequestNotificationPermission}
+            />
+            <SubjectSettings subjects={subjects} onAdd={onAddSubject} onRemove={onRemoveSubject} />
+            <PixelButton onClick={onClose} className="mt-6 w-full">Close</PixelButton>
+        </div>
+    </div>
+);
+
+const SoundMixerPanel: React.FC<{
+    soundscape: Soundscape;
+    activePreset: SoundPreset;
+    isMuted: boolean;
+    onChange: (preset: SoundPreset, layer: SoundLayerId, volume: number) => void;
+    onClose: () => void;
+}> = ({ soundscape, activePreset, isMuted, onChange, onClose }) => {
+    const [preset, setPreset] = useState<SoundPreset>(activePreset);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+            <div className="bg-[#c69a6c] p-6 border-8 border-[#7a5a3b] w-[95%] max-w-md text-white text-2xl">
+                <h2 className="text-4xl minecraft-text mb-4 text-center">Sound Mixer 🎚️</h2>
+                <div className="flex gap-2 mb-2">
+                    {(Object.keys(SOUND_PRESET_LABELS) as SoundPreset[]).map(option => (
+                        <PixelButton
+                            key={option}
+                            onClick={() => setPreset(option)}
+                            variant={preset === option ? 'primary' : 'secondary'}
+                            className="flex-1 !text-xl !py-1"
+                        >
+                            {SOUND_PRESET_LABELS[option]}{option === activePreset ? ' ▶' : ''}
+                        </PixelButton>
+                    ))}
+                </div>
+                <p className="text-xl opacity-80 mb-4">
+                    The focus mix plays while you focus, the break mix the rest of the time.
+                    {isMuted && ' Sound is muted right now (M).'}
+                </p>
+                <div className="space-y-3">
+                    {SOUND_LAYERS.map(layer => (
+                        <label key={layer.id} className="flex items-center gap-3">
+                            <span className="w-36">{layer.emoji} {layer.label}</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(soundscape[preset][layer.id] * 100)}
+                                onChange={(e) => onChange(preset, layer.id, parseInt(e.target.value, 10) / 100)}
+                                className="flex-1"
+                                aria-label={`${layer.label} volume`}
+                            />
+                            <span className="w-12 text-right text-xl">{Math.round(soundscape[preset][layer.id] * 100)}</span>
+                        </label>
+                    ))}
+                </div>
+                <PixelButton onClick={onClose} className="mt-6 w-full">Close</PixelButton>
+            </div>
+        </div>
+    );
+};
+
+type StatsRangePreset = 'week' | 'month' | 'custom';
+type StatsRange = { preset: StatsRangePreset; from: string; to: string };
+
+const MAX_STATS_RANGE_DAYS = 366;
+
+const StatsDashboard: React.FC<{
+    user: Character;
+    partner: Character;
+    today: string;
+    range: StatsRange;
+    stats: DailyStatsByDate;
+    subjects: Subject[];
+    names: Record<Character, string>;
+    onRangeChange: (range: StatsRange) => void;
+    onClose: () => void;
+}> = ({ user, partner, today, range, stats, subjects, names, onRangeChange, onClose }) => {
+    const formatTime = (totalSeconds: number) => {
+        const seconds = Math.floor(totalSeconds);
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        return `${hours}h ${minutes}m`;
+    };
+
+    const series: Array<{ owner: StatsOwner; label: string; color: string }> = [
+        { owner: user, label: names[user], color: 'bg-yellow-400' },
+        { owner: partner, label: names[partner], color: 'bg-pink-400' },
+        { owner: 'joint', label: 'Together', color: 'bg-red-500' },
+    ];
+    const summary = summarizeRange(stats, range.from, range.to, series.map(({ owner }) => owner));
+    const maxSeconds = Math.max(1, ...summary.dates.flatMap(date => series.map(({ owner }) => summary.perDay[date][owner] || 0)));
+    const labelEvery = Math.ceil(summary.dates.length / 10);
+
+    const selectPreset = (preset: StatsRangePreset) => {
+        if (preset === 'week') onRangeChange({ preset, from: addDays(today, -6), to: today });
+        else if (preset === 'month') onRangeChange({ preset, from: addDays(today, -29), to: today });
+        else onRangeChange({ ...range, preset });
+    };
+
+    const changeCustomDate = (field: 'from' | 'to', value: string) => {
+        if (!value) return;
+        const next = { ...range, [field]: value };
+        if (next.from > next.to) return;
+        if (listDates(next.from, next.to).length > MAX_STATS_RANGE_DAYS) return;
+        onRangeChange(next);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+            <div className="bg-[#c69a6c] p-6 border-8 border-[#7a5a3b] w-[95%] max-w-3xl max-h-[90vh] overflow-y-auto text-white">
+                <h2 className="text-4xl minecraft-text mb-4 text-center">Power Couple Dashboard 📊</h2>
+                <div className="flex flex-wrap gap-2 justify-center mb-4">
+                    {([['week', 'Last 7 days'], ['month', 'Last 30 days'], ['custom', 'Custom']] as Array<[StatsRangePreset, string]>).map(([preset, label]) => (
+                        <PixelButton
+                            key={preset}
+                            onClick={() => selectPreset(preset)}
+                            variant={range.preset === preset ? 'primary' : 'secondary'}
+                            className="!py-1 !px-3 !text-xl"
+                        >
+                            {label}
+                        </PixelButton>
+                    ))}
+                </div>
+                {range.preset === 'custom' && (
+                    <div className="flex flex-wrap gap-4 justify-center mb-4 text-xl">
+                        <label className="flex items-center gap-2">From
+                            <input type="date" value={range.from} max={range.to} onChange={(e) => changeCustomDate('from', e.target.value)} className="p-1 text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]" />
+                        </label>
+                        <label className="flex items-center gap-2">To
+                            <input type="date" value={range.to} min={range.from} max={today} onChange={(e) => changeCustomDate('to', e.target.value)} className="p-1 text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]" />
+                        </label>
+                    </div>
+                )}
+                <div className="grid grid-cols-3 gap-2 mb-4 text-xl text-center">
+                    {series.map(({ owner, label, color }) => (
+                        <div key={owner} className="bg-[#7a5a3b] border-4 border-[#4d3924] p-2">
+                            <p className="flex items-center justify-center gap-2"><span className={`inline-block w-3 h-3 ${color}`}></span>{label}</p>
+                            <p className="text-2xl">{formatTime(summary.totals[owner] || 0)}</p>
+                            <p className="opacity-80">⌀ {formatTime(summary.dailyAverages[owner] || 0)} / day</p>
                         </div>
+                    ))}
+                </div>
+                <div className="bg-[#7a5a3b] border-4 border-[#4d3924] p-2 overflow-x-auto">
+                    <div className="flex items-end gap-1 h-48" style={{ minWidth: `${summary.dates.length * 14}px` }}>
+                        {summary.dates.map(date => (
+                            <div key={date} className="flex-1 flex items-end justify-center gap-px h-full" title={date}>
+                                {series.map(({ owner, label, color }) => (
+                                    <div
+                                        key={owner}
+                                        className={`flex-1 ${color}`}
+                                        style={{ height: `${((summary.perDay[date][owner] || 0) / maxSeconds) * 100}%` }}
+                                        title={`${date} · ${label}: ${formatTime(summary.perDay[date][owner] || 0)}`}
+                                    />
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex gap-1 text-sm mt-1" style={{ minWidth: `${summary.dates.length * 14}px` }}>
+                        {summary.dates.map((date, index) => (
+                            <div key={date} className="flex-1 text-center whitespace-nowrap overflow-visible">
+                                {index % labelEvery === 0 ? date.slice(5) : ''}
+                            </div>
+                        ))}
                     </div>
                 </div>
+                <h3 className="text-3xl minecraft-text mt-4 mb-2">By subject</h3>
+                <div className="grid sm:grid-cols-2 gap-2 text-xl">
+                    {[user, partner].map(person => {
+                        const breakdown = summarizeSubjects(stats, range.from, range.to, person);
+                        const total = breakdown.reduce((sum, { seconds }) => sum + seconds, 0);
+                        return (
+                            <div key={person} className="bg-[#7a5a3b] border-4 border-[#4d3924] p-2">
+                                <p className="text-2xl">{names[person]}</p>
+                                {total === 0 && <p className="opacity-80">No focus time yet.</p>}
+                                {total > 0 && (
+                                    <div className="flex h-4 my-1 border-2 border-[#4d3924]">
+                                        {breakdown.map(({ subjectId, seconds }) => (
+                                            <div
+                                                key={subjectId ?? 'none'}
+                                                style={{ width: `${(seconds / total) * 100}%`, backgroundColor: findSubject(subjects, subjectId)?.color || '#9ca3af' }}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                                {breakdown.map(({ subjectId, seconds }) => {
+                                    const subject = findSubject(subjects, subjectId);
+                                    return (
+                                        <p key={subjectId ?? 'none'} className="flex justify-between gap-2">
+                                            <span style={subject ? { color: subject.color } : undefined}>
+                                                {subject ? `${subject.emoji} ${subject.name}` : subjectId ? 'Removed subject' : 'No subject'}
+                                            </span>
+                                            <span>{formatTime(seconds)}</span>
+                                        </p>
+                                    );
+                                })}
+                            </div>
+                        );
+                    })}
+                </div>
+                <PixelButton onClick={onClose} className="mt-4 w-full">Close</PixelButton>
+            </div>
+        </div>
+    );
+};
+
+const HistoryPanel: React.FC<{
+    user: Character;
+    partner: Character;
+    owner: Character;
+    records: SessionRecord[];
+    subjects: Subject[];
+    canLoadMore: boolean;
+    names: Record<Character, string>;
+    onOwnerChange: (owner: Character) => void;
+    onLoadMore: () => void;
+    onClose: () => void;
+}> = ({ user, partner, owner, records, subjects, canLoadMore, names, onOwnerChange, onLoadMore, onClose }) => {
+    const formatDuration = (totalSeconds: number) => {
+        const seconds = Math.floor(totalSeconds);
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+    };
+    const formatClockTime = (timestamp: number) =>
+        new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const formatDay = (timestamp: number) =>
+        new Date(timestamp).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+            <div className="bg-[#c69a6c] p-6 border-8 border-[#7a5a3b] w-[95%] max-w-xl max-h-[90vh] flex flex-col text-white">
+                <h2 className="text-4xl minecraft-text mb-4 text-center">Session History 📜</h2>
+                <div className="flex gap-2 justify-center mb-4">
+                    {[user, partner].map(character => (
+                        <PixelButton
+                            key={character}
+                            onClick={() => onOwnerChange(character)}
+                            variant={owner === character ? 'primary' : 'secondary'}
+                            className="!py-1 !px-3 !text-xl"
+                        >
+                            {names[character]}
+                        </PixelButton>
+                    ))}
+                </div>
+                <div className="overflow-y-auto flex-1 space-y-3 pr-1">
+                    {records.length === 0 && <p className="text-2xl text-center">No sessions yet.</p>}
+                    {records.map(record => {
+                        const pausedSeconds = record.pauses.reduce((total, pause) => total + (pause.end - pause.start) / 1000, 0);
+                        return (
+                            <div key={record.id} className="bg-[#7a5a3b] border-4 border-[#4d3924] p-3 text-xl">
+                                <div className="flex justify-between text-2xl">
+                                    <span>{formatDay(record.startTime)}</span>
+                                    <span>{formatClockTime(record.startTime)} – {formatClockTime(record.endTime)}</span>
+                                </div>
+                                <p>Focused: {formatDuration(record.focusSeconds)}</p>
+                                {findSubject(subjects, record.subjectId) && <SubjectTag subject={findSubject(subjects, record.subjectId)!} />}
+                                {record.awayCount !== null && record.awaySeconds !== null && (
+                                    <p>
+                                        🎯 {getFocusScore(record.focusSeconds, record.awaySeconds * 1000)}% focus
+                                        {record.awayCount > 0 && ` · left ${record.awayCount}× (${formatDuration(record.awaySeconds)})`}
+                                    </p>
+                                )}
+                                {record.completedTasks.length > 0 && <p>Done: {record.completedTasks.map(task => task.text).join(', ')}</p>}
+                                {record.partner && <p>Together with {names[record.partner]}: {formatDuration(record.jointSeconds)} 💛</p>}
+                                {record.pauses.length > 0 && (
+                                    <p className="text-lg opacity-80">
+                                        {record.pauses.length} {record.pauses.length === 1 ? 'pause' : 'pauses'} ({formatDuration(pausedSeconds)}):{' '}
+                                        {record.pauses.map(pause => `${formatClockTime(pause.start)}–${formatClockTime(pause.end)}`).join(', ')}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {canLoadMore && (
+                        <PixelButton onClick={onLoadMore} variant="secondary" className="w-full !py-2 !text-xl">Load older sessions</PixelButton>
+                    )}
+                </div>
+                <PixelButton onClick={onClose} className="mt-4">Close</PixelButton>
+            </div>
+        </div>
+    );
+};
+
+const InboxPanel: React.FC<{
+    roomId: string;
+    items: InboxItem[];
+    // Items that were unread when the panel opened, highlighted for this visit.
+    newItemIds: string[];
+    canLoadMore: boolean;
+    names: Record<Character, string>;
+    onLoadMore: () => void;
+    onClose: () => void;
+}> = ({ roomId, items, newItemIds, canLoadMore, names, onLoadMore, onClose }) => {
+    const formatSentAt = (timestamp: number) =>
+        new Date(timestamp).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+            <div className="bg-[#c69a6c] p-6 border-8 border-[#7a5a3b] w-[95%] max-w-xl max-h-[90vh] flex flex-col text-white">
+                <h2 className="text-4xl minecraft-text mb-4 text-center">Inbox 💌</h2>
+                <div className="overflow-y-auto flex-1 space-y-3 pr-1">
+                    {items.length === 0 && <p className="text-2xl text-center">Nothing here yet.</p>}
+                    {items.map(item => (
+                        <div
+                            key={item.id}
+                            className={`border-4 p-3 text-xl ${newItemIds.includes(item.id) ? 'bg-[#a0522d] border-yellow-400' : 'bg-[#7a5a3b] border-[#4d3924]'}`}
+                        >
+                            <div className="flex justify-between text-lg opacity-80">
+                                <span>{formatSentAt(item.sentAt)}</span>
+                                {newItemIds.includes(item.id) && <span>new</span>}
+                            </div>
+                            <p className="text-2xl">{names[item.message.from]} {describeMessage(item.message)}</p>
+                            <MessageBody message={item.message} roomId={roomId} />
+                        </div>
+                    ))}
+                    {canLoadMore && (
+                        <PixelButton onClick={onLoadMore} variant="secondary" className="w-full !py-2 !text-xl">Load older messages</PixelButton>
+                    )}
+                </div>
+                <PixelButton onClick={onClose} className="mt-4">Close</PixelButton>
+            </div>
+        </div>
+    );
+};
+
+
+// --- TASKS ---
+
+// A checklist; without handlers it is read-only, as the partner's list is.
+const TaskPanel: React.FC<{
+    title: string;
+    tasks: Task[];
+    onAdd?: (text: string) => void;
+    onToggle?: (task: Task) => void;
+    onRemove?: (task: Task) => void;
+}> = ({ title, tasks, onAdd, onToggle, onRemove }) => {
+    const [draft, setDraft] = useState('');
+
+    const handleAdd = () => {
+        if (!onAdd || !draft.trim()) return;
+        onAdd(draft.trim());
+        setDraft('');
+    };
+
+    return (
+        <div className="bg-black bg-opacity-50 border-4 border-gray-800 p-2 text-white text-lg space-y-1">
+            <p className="text-xl">📝 {title}</p>
+            {tasks.length === 0 && !onAdd && <p className="opacity-80">Nothing planned.</p>}
+            {tasks.map(task => (
+                <div key={task.id} className="flex items-start gap-2">
+                    <input
+                        type="checkbox"
+                        checked={task.done}
+                        disabled={!onToggle}
+                        onChange={() => onToggle?.(task)}
+                        className="mt-1 w-4 h-4 shrink-0"
+                        aria-label={task.text}
+                    />
+                    <span className={`flex-1 break-words ${task.done ? 'line-through opacity-70' : ''}`}>{task.text}</span>
+                    {onRemove && <button onClick={() => onRemove(task)} className="opacity-70" aria-label={`Remove ${task.text}`}>✕</button>}
+                </div>
+            ))}
+            {onAdd && (
+                <div className="flex gap-1">
+                    <input
+                        type="text"
+                        value={draft}
+                        maxLength={MAX_TASK_LENGTH}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                        placeholder="What's the plan?"
+                        className="flex-1 min-w-0 p-1 text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+                    />
+                    <button onClick={handleAdd} disabled={!draft.trim()} className="bg-[#7a5a3b] border-2 border-[#4d3924] px-2 disabled:opacity-50">Add</button>
+                </div>
             )}
         </div>
     );
 };
 
+// --- STUDY DATES ---
+
+// Value for a datetime-local input, in the device's timezone.
+const toLocalInputValue = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const StudyDateModal: React.FC<{
+    proposedBy: Character;
+    onPropose: (date: NewStudyDate) => void;
+    onClose: () => void;
+}> = ({ proposedBy, onPropose, onClose }) => {
+    // Default to the next full hour that is at least half an hour away.
+    const [startValue, setStartValue] = useState(() => {
+        const start = new Date(serverClock.now() + 30 * 60 * 1000);
+        start.setMinutes(60, 0, 0);
+        return toLocalInputValue(start.getTime());
+    });
+    const [plannedMinutes, setPlannedMinutes] = useState(DEFAULT_STUDY_DATE_MINUTES);
+    const [topic, setTopic] = useState('');
+
+    const startTime = new Date(startValue).getTime();
+    const isInFuture = !isNaN(startTime) && startTime > serverClock.now();
+
+    const handlePropose = () => {
+        if (!isInFuture) return;
+        onPropose({ proposedBy, startTime, plannedMinutes, topic: topic.trim() || null });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+            <div className="bg-[#c69a6c] p-6 border-8 border-[#7a5a3b] w-[95%] max-w-lg text-white text-2xl space-y-4">
+                <h2 className="text-4xl minecraft-text text-center">Plan a study date 📅</h2>
+                <label className="block">
+                    When
+                    <input
+                        type="datetime-local"
+                        value={startValue}
+                        onChange={(e) => setStartValue(e.target.value)}
+                        className="block w-full mt-1 p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+                    />
+                </label>
+                <label className="block">
+                    For
+                    <select
+                        value={plannedMinutes}
+                        onChange={(e) => setPlannedMinutes(parseInt(e.target.value, 10))}
+                        className="block mt-1 p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b]"
+                    >
+                        {STUDY_DATE_LENGTH_OPTIONS.map(minutes => (
+                            <option key={minutes} value={minutes}>{minutes} minutes</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="block">
+                    Topic (optional)
+                    <input
+                        type="text"
+                        value={topic}
+                        maxLength={MAX_STUDY_DATE_TOPIC_LENGTH}
+                        onChange={(e) => setTopic(e.target.value)}
+                        placeholder="Chapter 4 revision"
+                        className="block w-full mt-1 p-1 text-xl text-black bg-[#f3e5ab] border-2 border-[#7a5a3b] placeholder-gray-600"
+                    />
+                </label>
+                {!isInFuture && <p className="text-xl text-red-200">Pick a time in the future.</p>}
+                <div className="flex gap-4 justify-center">
+                    <PixelButton onClick={handlePropose} disabled={!isInFuture}>Ask them</PixelButton>
+                    <PixelButton onClick={onClose} variant="secondary">Cancel</PixelButton>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const UpcomingStudyDates: React.FC<{
+    user: Character;
+    dates: StudyDate[];
+    onPlan: () => void;
+    onRespond: (dateId: string, accept: boolean) => void;
+    onCancel: (dateId: string) => void;
+}> = ({ user, dates, onPlan, onRespond, onCancel }) => {
+    const [now, setNow] = useState(() => serverClock.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(serverClock.now()), 15 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const upcoming = getUpcomingDates(dates, now).slice(0, 3);
+
+    return (
+        <div className="bg-black bg-opacity-50 border-4 border-gray-800 p-2 text-white text-lg space-y-2">
+            {upcoming.map(date => (
+                <div key={date.id} className="border-b border-gray-600 pb-1 last:border-0">
+                    <p className="text-xl">📅 {date.topic || 'Study date'}</p>
+                    <p>{formatDateTime(date.startTime)} · {date.plannedMinutes} min</p>
+                    <p className="text-yellow-300">
+                        {date.startTime > now ? formatCountdown(date.startTime - now) : `${Math.floor(getDateJointSeconds(date) / 60)} of ${date.plannedMinutes} min together`}
+                        {date.status === 'pending' && ' · not accepted yet'}
+                    </p>
+                    {date.status === 'pending' && getDateRespondent(date) === user && (
+                        <div className="flex gap-2 mt-1">
+                            <button onClick={() => onRespond(date.id, true)} className="bg-[#7a5a3b] border-2 border-[#4d3924] px-2">Accept</button>
+                            <button onClick={() => onRespond(date.id, false)} className="bg-red-600 border-2 border-red-800 px-2">Decline</button>
+                        </div>
+                    )}
+                    {date.proposedBy === user && (
+                        <button onClick={() => onCancel(date.id)} className="underline opacity-80 mt-1">Call off</button>
+                    )}
+                </div>
+            ))}
+            <button onClick={onPlan} className="w-full bg-[#7a5a3b] border-2 border-[#4d3924] px-2 py-1">📅 Plan a date</button>
+        </div>
+    );
+};
+
+const StudyDatePrompt: React.FC<{
+    date: StudyDate;
+    isPartnerInSession: boolean;
+    onStart: () => void;
+    onLater: () => void;
+}> = ({ date, isPartnerInSession, onStart, onLater }) => (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 animate-fade-in p-4">
+        <div className="bg-[#f3e5ab] p-8 border-8 border-[#a0522d] text-center w-[90%] max-w-lg">
+            <div className="text-8xl mb-4 animate-bounce">📅</div>
+            <h2 className="text-4xl md:text-5xl text-[#5c3c1a] minecraft-text mb-2">It's study date time!</h2>
+            <p className="text-2xl text-[#5c3c1a] mb-6">
+                {date.topic ? `${date.topic} · ` : ''}{date.plannedMinutes} minutes, until {new Date(getSlotEnd(date)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+            <div className="flex gap-4 justify-center">
+                <PixelButton onClick={onStart}>{isPartnerInSession ? 'JOIN THEIR SESSION' : 'START "STUDY"'}</PixelButton>
+                <PixelButton onClick={onLater} variant="secondary">Later</PixelButton>
+            </div>
+        </div>
+    </div>
+);
+
+// --- SCENES ---
+
+const SceneSpriteView: React.FC<{ sprite: SceneSprite; isBadge?: boolean }> = ({ sprite, isBadge = false }) => (
+    <div
+        className={`absolute ${isBadge ? '-top-2 -right-2' : ''} ${sprite.className}`}
+        style={{ animation: sprite.animation, animationDelay: sprite.animationDelay }}
+    >
+        {sprite.emoji}
+        {sprite.badge && <SceneSpriteView sprite={sprite.badge} isBadge />}
+    </div>
+);
 
 const MainDisplay: React.FC<{
     user: Character;
@@ -794,116 +2116,151 @@ const MainDisplay: React.FC<{
     isPartnerInSession: boolean;
     isFullscreen: boolean;
     onToggleFullscreen: () => void;
+    userPhase: IntervalPhaseInfo | null;
+    partnerPhase: IntervalPhaseInfo | null;
+    isIntervalMode: boolean;
+    intervalSettings: IntervalSettings;
+    onToggleIntervalMode: () => void;
+    onIntervalSettingsChange: (settings: IntervalSettings) => void;
+    userGoal: { seconds: number; goalMinutes: number } | null;
+    jointGoal: { seconds: number; goalMinutes: number } | null;
+    onOpenSettings: () => void;
+    onOpenMixer: () => void;
+    unreadCount: number;
+    onOpenInbox: () => void;
+    isPartnerOnline: boolean;
+    onNudge: () => void;
+    onInvite: () => void;
+    studyDates: StudyDate[];
+    onPlanStudyDate: () => void;
+    onRespondToStudyDate: (dateId: string, accept: boolean) => void;
+    onCancelStudyDate: (dateId: string) => void;
+    subjects: Subject[];
+    selectedSubjectId: string | null;
+    onSelectSubject: (subjectId: string | null) => void;
+    userSubject: Subject | null;
+    partnerSubject: Subject | null;
+    tasks: Task[];
+    partnerTasks: Task[];
+    onAddTask: (text: string) => void;
+    onToggleTask: (task: Task) => void;
+    onRemoveTask: (task: Task) => void;
+    userAwayMs: number | null;
+    partnerAwayMs: number | null;
+    scenePack: ScenePack;
+    partnerDisplayName: string;
+    // Set while the session runs on another of the user's devices: whether that device is still connected.
+    otherDeviceOnline: boolean | null;
+    onContinueHere: () => void;
 }> = ({
     user, partner, userFocus, partnerFocus, onStart, onJoin, onEnd, onPause, onResume,
     isMuted, onToggleMute, userElapsedSeconds, partnerElapsedSeconds,
-    isUserInSession, isPartnerInSession, isFullscreen, onToggleFullscreen
+    isUserInSession, isPartnerInSession, isFullscreen, onToggleFullscreen,
+    userPhase, partnerPhase, isIntervalMode, intervalSettings, onToggleIntervalMode, onIntervalSettingsChange,
+    userGoal, jointGoal, onOpenSettings, onOpenMixer, unreadCount, onOpenInbox,
+    isPartnerOnline, onNudge, onInvite,
+    studyDates, onPlanStudyDate, onRespondToStudyDate, onCancelStudyDate,
+    subjects, selectedSubjectId, onSelectSubject, userSubject, partnerSubject,
+    tasks, partnerTasks, onAddTask, onToggleTask, onRemoveTask,
+    userAwayMs, partnerAwayMs, scenePack, partnerDisplayName, otherDeviceOnline, onContinueHere
 }) => {
-    let imageSrc = IMAGES.IDLE;
-    let text = "Ready for today, Politos?";
+    const scene = resolveScene(scenePack, user, userFocus, partnerFocus);
     let controls: React.ReactNode = null;
 
-    const isUserFocusing = userFocus === FocusState.Focusing;
-    const isPartnerFocusing = partnerFocus === FocusState.Focusing;
-    const isUserPaused = userFocus === FocusState.Paused;
-    const isPartnerPaused = partnerFocus === FocusState.Paused;
     const isUserIdle = userFocus === FocusState.Idle;
     const isPartnerIdle = partnerFocus === FocusState.Idle;
 
-    const isAnyoneFocusing = isUserFocusing || isPartnerFocusing;
-
-    // Determine controls, text, and image based on state matrix
-    if (isUserFocusing) {
+    if (otherDeviceOnline !== null) {
+        controls = (
+            <div className="flex flex-col gap-2 items-center">
+                <p className="text-2xl text-white bg-black bg-opacity-40 px-2">
+                    {otherDeviceOnline ? '📱 Running on your other device' : '📴 Your other device went offline'}
+                </p>
+                <PixelButton onClick={onContinueHere}>CONTINUE HERE</PixelButton>
+            </div>
+        );
+    } else if (userFocus === FocusState.Focusing) {
         controls = (
             <div className="flex gap-4 justify-center">
                 <PixelButton onClick={onPause}>PAUSE</PixelButton>
                 <PixelButton onClick={onEnd} variant="danger">END SESSION</PixelButton>
             </div>
         );
-        if (isPartnerFocusing) {
-            imageSrc = IMAGES.JOINT_FOCUS;
-            text = "We politos are focussing.";
-        } else if (isPartnerPaused) {
-            imageSrc = user === Character.Flynn ? IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE : IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE;
-            text = "Focus time. Your polito is resting and will be right back";
-        } else { // Partner is idle
-            imageSrc = user === Character.Flynn ? IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE : IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE;
-            text = "Focus time. Your polito will join you.";
-        }
-    } else if (isUserPaused) {
+    } else if (userFocus === FocusState.Paused) {
         controls = (
             <div className="flex gap-4 justify-center">
                 <PixelButton onClick={onResume}>RESUME</PixelButton>
                 <PixelButton onClick={onEnd} variant="danger">END SESSION</PixelButton>
             </div>
         );
-        if (isPartnerFocusing) {
-            imageSrc = user === Character.Flynn ? IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE : IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE;
-            text = "Lil rests go a long way, but do return to your polito.";
-        } else if (isPartnerPaused) {
-            imageSrc = IMAGES.IDLE;
-            text = "Rest politos, lil rests go a long way";
-        } else { // Partner is idle
-            imageSrc = IMAGES.IDLE;
-            text = "You are on a break.";
-        }
-    } else if (isUserIdle) {
-        if (isPartnerFocusing) {
-            imageSrc = user === Character.Flynn ? IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE : IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE;
-            text = "Your polito is focussing.";
-            controls = <PixelButton onClick={onJoin}>JOIN THEIR SESSION</PixelButton>;
-        } else if (isPartnerPaused) {
-            imageSrc = user === Character.Flynn ? IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE : IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE;
-            text = "Your polito is on a well deserved rest.";
-            controls = <PixelButton onClick={onJoin}>JOIN THEIR SESSION</PixelButton>;
-        } else { // Partner is idle
-            imageSrc = IMAGES.IDLE;
-            text = "Ready for today, Politos?";
-            controls = <PixelButton onClick={onStart}>START "STUDY"</PixelButton>;
-        }
+    } else if (!isPartnerIdle) {
+        controls = <PixelButton onClick={onJoin}>JOIN THEIR SESSION</PixelButton>;
+    } else {
+        controls = (
+            <>
+                <PixelButton onClick={onStart}>START "STUDY"</PixelButton>
+                <IntervalModePicker
+                    isEnabled={isIntervalMode}
+                    settings={intervalSettings}
+                    onToggle={onToggleIntervalMode}
+                    onChange={onIntervalSettingsChange}
+                />
+            </>
+        );
+    }
+
+    // An online partner who is not studying can be nudged, or invited into a running session.
+    let partnerPrompt: React.ReactNode = null;
+    if (isPartnerOnline && isPartnerIdle) {
+        partnerPrompt = isUserIdle
+            ? <PixelButton onClick={onNudge} variant="secondary" className="text-xl md:text-2xl p-2">👉 NUDGE</PixelButton>
+            : <PixelButton onClick={onInvite} variant="secondary" className="text-xl md:text-2xl p-2">📨 INVITE TO JOIN</PixelButton>;
     }
 
-    const partnerDisplayName = partner === Character.Rapunzel ? 'Faryal 💛' : 'Asad 💛';
-    
     return (
         <div className="relative w-full h-full md:h-auto">
-            <img src={imageSrc} alt="Scene" className="w-full h-full object-cover md:h-auto block"/>
+            <img src={scene.imageSrc} alt="Scene" className="w-full h-full object-cover md:h-auto block"/>
 
             <div className="absolute inset-0">
                 <SoundToggleButton isMuted={isMuted} onToggle={onToggleMute} />
+                <MixerButton onClick={onOpenMixer} />
+                <SettingsButton onClick={onOpenSettings} />
+                <InboxButton unreadCount={unreadCount} onClick={onOpenInbox} />
                 <FullscreenButton isFullscreen={isFullscreen} onToggle={onToggleFullscreen} />
-                
-                {isUserIdle && isPartnerIdle && (
-                  <>
-                    <div key="heart1" className="absolute top-[48%] left-[51%] text-3xl animate-float-up" style={{ animationDelay: '0s' }}>❤️</div>
-                    <div key="heart2" className="absolute top-[50%] left-[49%] text-3xl animate-float-up" style={{ animationDelay: '0.8s' }}>❤️</div>
-                  </>
-                )}
-                
-                {isAnyoneFocusing && (
-                    <div className="absolute top-[42%] left-1/2 -translate-x-1/2 flex items-center justify-center gap-4">
-                        <div className="relative text-5xl" style={{ animation: `brain-pulse 2s infinite ease-in-out` }}>
-                            🧠
-                            <span className="absolute -top-2 -right-2 text-3xl" style={{ animation: `spark-fade 1.5s infinite linear`, animationDelay: '0.2s' }}>⚡</span>
-                        </div>
-                        {isUserFocusing && isPartnerFocusing && (
-                            <>
-                                <div className="text-4xl text-yellow-300" style={{ textShadow: '2px 2px #000a' }}>💛</div>
-                                <div className="relative text-5xl" style={{ animation: `brain-pulse 2s infinite ease-in-out`, animationDelay: '1s' }}>
-                                    🧠
-                                    <span className="absolute -top-2 -right-2 text-3xl" style={{ animation: `spark-fade 1.5s infinite linear`, animationDelay: '0.7s' }}>⚡</span>
-                                </div>
-                            </>
-                        )}
+                <div className="absolute top-24 left-4 z-20 w-64 flex flex-col gap-2">
+                    {isUserIdle && (
+                        <UpcomingStudyDates
+                            user={user}
+                            dates={studyDates}
+                            onPlan={onPlanStudyDate}
+                            onRespond={onRespondToStudyDate}
+                            onCancel={onCancelStudyDate}
+                        />
+                    )}
+                    <TaskPanel title="My tasks" tasks={tasks} onAdd={onAddTask} onToggle={onToggleTask} onRemove={onRemoveTask} />
+                </div>
+                {partnerTasks.length > 0 && (
+                    <div className="absolute top-44 right-4 z-20 w-64">
+                        <TaskPanel title={`${partnerDisplayName}'s tasks`} tasks={partnerTasks} />
                     </div>
                 )}
-            
-                {isUserInSession && <Timer elapsedSeconds={userElapsedSeconds} />}
-                {isUserInSession && isPartnerInSession && <PartnerTimer elapsedSeconds={partnerElapsedSeconds} partnerName={partnerDisplayName} />}
+                
+                {scene.sprites.map((sprite, index) => <SceneSpriteView key={`${userFocus}-${partnerFocus}-${index}`} sprite={sprite} />)}
+
+                <div className="absolute top-4 right-4 flex items-start gap-2">
+                    {userGoal && <GoalRing seconds={userGoal.seconds} goalMinutes={userGoal.goalMinutes} label="me" />}
+                    {jointGoal && <GoalRing seconds={jointGoal.seconds} goalMinutes={jointGoal.goalMinutes} label="us" />}
+                    {isUserInSession && <Timer elapsedSeconds={userElapsedSeconds} phase={userPhase} subject={userSubject} focusScore={userAwayMs !== null ? getFocusScore(userElapsedSeconds, userAwayMs) : null} />}
+                </div>
+                {isUserInSession && isPartnerInSession && <PartnerTimer elapsedSeconds={partnerElapsedSeconds} partnerName={partnerDisplayName} phase={partnerPhase} subject={partnerSubject} focusScore={partnerAwayMs !== null ? getFocusScore(partnerElapsedSeconds, partnerAwayMs) : null} />}
             
                 <div className="absolute bottom-0 w-full z-10 flex flex-col items-center p-8 pb-12 gap-6">
-                    <h2 className="text-4xl md:text-5xl text-white minecraft-text text-center px-4 py-2 bg-black bg-opacity-40">{text}</h2>
-                    <div className="min-w-[300px] text-center">{controls}</div>
+                    <h2 className="text-4xl md:text-5xl text-white minecraft-text text-center px-4 py-2 bg-black bg-opacity-40">{scene.caption}</h2>
+                    <div className="min-w-[300px] text-center">
+                        {isUserIdle && subjects.length > 0 && <SubjectPicker subjects={subjects} selectedId={selectedSubjectId} onSelect={onSelectSubject} />}
+                        {controls}
+                    </div>
+                    {partnerPrompt}
                 </div>
             </div>
         </div>
@@ -912,18 +2269,29 @@ const MainDisplay: React.FC<{
 
 // --- MAIN APP COMPONENT ---
 
+const HISTORY_PAGE_SIZE = 20;
+const INBOX_PAGE_SIZE = 30;
+
 const App: React.FC = () => {
   const [isAuthenticating, setIsAuthenticating] = useState(true);
+  const [authUid, setAuthUid] = useState<string | null>(null);
+  const [linkedEmail, setLinkedEmail] = useState<string | null>(null);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [room, setRoom] = useState<Room | null>(() => loadSavedRoom());
   const [userCharacter, setUserCharacter] = useState<Character | null>(null);
-  const [userFocus, setUserFocus] = useState<FocusState>(FocusState.Idle);
-  const [userFocusStartTime, setUserFocusStartTime] = useState<number | null>(null);
-  const [userTotalPausedTime, setUserTotalPausedTime] = useState<number | null>(null);
-  const [userLastPauseStartTime, setUserLastPauseStartTime] = useState<number | null>(null);
+  const [userStatus, setUserStatus] = useState<UserStatus | null>(null);
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>(() => sessionJournal.entries());
   const [partnerFocus, setPartnerFocus] = useState<FocusState>(FocusState.Idle);
   const [partnerFocusStartTime, setPartnerFocusStartTime] = useState<number | null>(null);
   const [partnerTotalPausedTime, setPartnerTotalPausedTime] = useState<number | null>(null);
   const [partnerLastPauseStartTime, setPartnerLastPauseStartTime] = useState<number | null>(null);
+  const [partnerIntervalSchedule, setPartnerIntervalSchedule] = useState<IntervalSchedule | null>(null);
+  const [partnerSubjectId, setPartnerSubjectId] = useState<string | null>(null);
+  const [partnerAwayMs, setPartnerAwayMs] = useState<number | null>(null);
+  const [userPhase, setUserPhase] = useState<IntervalPhaseInfo | null>(null);
+  const [partnerPhase, setPartnerPhase] = useState<IntervalPhaseInfo | null>(null);
+  const [isIntervalMode, setIsIntervalMode] = useState(false);
+  const [intervalSettings, setIntervalSettings] = useState<IntervalSettings>(() => loadIntervalSettings());
   
   const [userTodayTime, setUserTodayTime] = useState(0);
   const [userYesterdayTime, setUserYesterdayTime] = useState(0);
@@ -934,9 +2302,17 @@ const App: React.FC = () => {
 
   const [sessionType, setSessionType] = useState<SessionType>(SessionType.None);
   const [showRewardModal, setShowRewardModal] = useState(false);
-  const [receivedReward, setReceivedReward] = useState<Reward | null>(null);
-  const [receivedMessage, setReceivedMessage] = useState<GreetingMessage | null>(null);
+  // Inbox items that arrived while the app is open and still wait for their notification.
+  const [arrivals, setArrivals] = useState<InboxItem[]>([]);
+  const [unreadInbox, setUnreadInbox] = useState<InboxItem[]>([]);
+  const [showInbox, setShowInbox] = useState(false);
+  const [inboxLimit, setInboxLimit] = useState(INBOX_PAGE_SIZE);
+  const [inboxItems, setInboxItems] = useState<InboxItem[]>([]);
+  const [inboxNewIds, setInboxNewIds] = useState<string[]>([]);
   const [isMuted, setIsMuted] = useState<boolean>(true);
+  const [soundscape, setSoundscape] = useState<Soundscape>(() => loadSoundscape());
+  const [showMixer, setShowMixer] = useState(false);
+  const [scenePack, setScenePack] = useState<ScenePack>(() => findScenePack(loadScenePackId()));
   const [showJoinNotification, setShowJoinNotification] = useState(false);
   const [showOfflineNotification, setShowOfflineNotification] = useState(false);
   const [showOnlineNotification, setShowOnlineNotification] = useState(false);
@@ -946,28 +2322,66 @@ const App: React.FC = () => {
   const [userElapsedSeconds, setUserElapsedSeconds] = useState(0);
   const [partnerElapsedSeconds, setPartnerElapsedSeconds] = useState(0);
   const [showStats, setShowStats] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyOwner, setHistoryOwner] = useState<Character | null>(null);
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+  const [historyRecords, setHistoryRecords] = useState<SessionRecord[]>([]);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [dashboardRange, setDashboardRange] = useState<StatsRange | null>(null);
+  const [dashboardStats, setDashboardStats] = useState<DailyStatsByDate>({});
+  const [goals, setGoals] = useState<Goals>({});
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>({ dayBoundary: DEFAULT_DAY_BOUNDARY });
+  const [today, setToday] = useState(() => getCycleDateString(serverClock.now()));
+  const [showSettings, setShowSettings] = useState(false);
+  const [streakStats, setStreakStats] = useState<DailyStatsByDate>({});
   const [isSelectingCharacter, setIsSelectingCharacter] = useState(false);
   const [showConnectionBanner, setShowConnectionBanner] = useState(true); // Start with true
-
-
-  const musicRef = useRef<HTMLAudioElement>(null);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [resumeGraceMinutes, setResumeGraceMinutes] = useState(() => loadResumeGraceMinutes());
+  const [distractionSettings, setDistractionSettings] = useState<DistractionSettings>(() => loadDistractionSettings());
+  const [studyDates, setStudyDates] = useState<StudyDate[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [profiles, setProfiles] = useState<Profiles>(DEFAULT_PROFILES);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [partnerTasks, setPartnerTasks] = useState<Task[]>([]);
+  // Tasks ticked off in the session that just ended, for the reward modal.
+  const [lastCompletedTasks, setLastCompletedTasks] = useState<CompletedTask[]>([]);
+  const [selectedSubjectId, setSelectedSubjectId] = useState<string | null>(() => loadLastSubjectId());
+  const [showStudyDateModal, setShowStudyDateModal] = useState(false);
+  const [dueStudyDate, setDueStudyDate] = useState<StudyDate | null>(null);
+  // Dates whose start prompt was put off on this visit.
+  const [postponedDateIds, setPostponedDateIds] = useState<string[]>([]);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(() => loadNotificationSettings());
+  const [notificationPermission, setNotificationPermission] = useState(() => getNotificationPermission());
+
+
+  const soundLayerRefs = useRef<Partial<Record<SoundLayerId, HTMLAudioElement | null>>>({});
   const silentAudioRef = useRef<HTMLAudioElement>(null);
   const onlineNotificationTimerRef = useRef<number | null>(null);
   const connectionTimeoutRef = useRef<number | null>(null);
   const desiredOrientationRef = useRef<string | null>(null);
+  const autoPausedForBreakRef = useRef(false);
+  const partnerStatusRef = useRef<UserStatus | null>(null);
   const prevPartnerFocus = usePrevious(partnerFocus);
   const prevIsPartnerOnline = usePrevious(isPartnerOnline);
+  const prevUserPhase = usePrevious(userPhase?.phase);
 
   const partnerCharacter = userCharacter === Character.Flynn ? Character.Rapunzel : Character.Flynn;
-  const partnerDisplayName = partnerCharacter === Character.Rapunzel ? 'Faryal 💛' : 'Asad 💛';
+  const displayNames = getDisplayNames(profiles);
+  const partnerDisplayName = displayNames[partnerCharacter];
+  // Read by the inbox listener, which outlives any one set of profiles.
+  const displayNamesRef = useRef(displayNames);
+  displayNamesRef.current = displayNames;
   
   // Anonymous sign-in
   useEffect(() => {
-    console.log("Attempting anonymous sign-in...");
-    auth.signInAnonymously()
-        .then((userCredential: any) => {
-            console.log("Signed in anonymously. User UID:", userCredential.user.uid);
-            console.log("Authentication successful. Firebase will now connect to the database automatically.");
+    console.log(`Attempting anonymous sign-in (${backend.name} backend)...`);
+    backend.signIn()
+        .then((uid: string) => {
+            console.log("Signed in. User UID:", uid);
+            console.log("Authentication successful. The backend will now connect to the database automatically.");
+            setAuthUid(uid);
+            setLinkedEmail(backend.getLinkedEmail());
             setIsAuthenticating(false);
         })
         .catch((error: any) => {
@@ -977,27 +2391,36 @@ const App: React.FC = () => {
         });
   }, []);
 
-  // Preload images to ensure smooth transitions
+  // Preload images to ensure smooth transitions. Once the service worker has them, this reads from its cache.
   useEffect(() => {
-    const imagesToPreload = [
-      IMAGES.IDLE,
-      IMAGES.JOINT_FOCUS,
-      IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE,
-      IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE,
-    ];
-    
-    imagesToPreload.forEach(src => {
+    getPackImages(scenePack).forEach(src => {
       const img = new Image();
       img.src = src;
     });
+  }, [scenePack]);
+
+  // --- SESSION JOURNAL ---
+  useEffect(() => sessionJournal.subscribe(setJournalEntries), []);
+
+  const replayJournal = useCallback(() => {
+      sessionJournal.replay().then(({ superseded, rejected }) => {
+          const notices: string[] = [];
+          if (superseded > 0) {
+              notices.push(`${superseded} offline session change${superseded === 1 ? ' was' : 's were'} replaced by what happened on another device.`);
+          }
+          if (rejected.length > 0) {
+              notices.push(`${rejected.length} offline session change${rejected.length === 1 ? ' was' : 's were'} turned down by the database and could not be saved.`);
+          }
+          if (notices.length === 0) return;
+          setSyncNotice(notices.join(' '));
+          setTimeout(() => setSyncNotice(null), 4000);
+      });
   }, []);
 
-  // Listen to Firebase connection status
+  // Listen to the backend connection status
   useEffect(() => {
-      const connectedRef = database.ref('.info/connected');
-      const listener = connectedRef.on('value', (snapshot: any) => {
-          const connected = snapshot.val() === true;
-          console.log(`Firebase Realtime Database connection status: ${connected ? 'Connected' : 'Disconnected'}`);
+      const unsubscribe = backend.onConnectionChange((connected) => {
+          console.log(`Realtime database connection status: ${connected ? 'Connected' : 'Disconnected'}`);
           
           if (connectionTimeoutRef.current) {
               clearTimeout(connectionTimeoutRef.current);
@@ -1005,6 +2428,7 @@ const App: React.FC = () => {
 
           if (connected) {
               setShowConnectionBanner(false);
+              replayJournal();
           } else {
               // Only show the banner after 2 seconds of being disconnected
               connectionTimeoutRef.current = window.setTimeout(() => {
@@ -1020,78 +2444,89 @@ const App: React.FC = () => {
           if (connectionTimeoutRef.current) {
               clearTimeout(connectionTimeoutRef.current);
           }
-          connectedRef.off('value', listener);
+          unsubscribe();
       };
-  }, []);
+  }, [replayJournal]);
   
-  const handleEnd = useCallback(async () => {
-    if (!userCharacter) return;
-    const now = Date.now();
-    
-    try {
-        const userRef = database.ref(`users/${userCharacter}`);
-        const partnerRef = database.ref(`users/${partnerCharacter}`);
-
-        const [userSnapshot, partnerSnapshot] = await Promise.all([userRef.get(), partnerRef.get()]);
-        
-        const userData = userSnapshot.val();
-        const partnerData = partnerSnapshot.val();
-
-        if (!userData) {
-            console.error("User data is missing, cannot end session.");
-            return;
-        }
-        
-        if ((userData.focusState !== FocusState.Focusing && userData.focusState !== FocusState.Paused) || !userData.focusStartTime) {
-            return; 
-        }
-        
-        let finalTotalPausedTime = userData.totalPausedTime || 0;
-        if (userData.focusState === FocusState.Paused && userData.lastPauseStartTime) {
-            finalTotalPausedTime += (now - userData.lastPauseStartTime);
-        }
-        const sessionDurationMs = (now - userData.focusStartTime) - finalTotalPausedTime;
-        const sessionDurationSec = sessionDurationMs > 0 ? Math.floor(sessionDurationMs / 1000) : 0;
-
-        const todayDateString = getCycleDateString(now);
-        const updates: { [key: string]: any } = {};
-
-        if (sessionDurationSec > 0) {
-            updates[`/dailyStats/${todayDateString}/${userCharacter}/totalFocusTime`] = firebase.database.ServerValue.increment(sessionDurationSec);
-        }
-        
-        if (partnerData && (partnerData.focusState === FocusState.Focusing || partnerData.focusState === FocusState.Paused) && partnerData.focusStartTime) {
-            let partnerFinalTotalPaused = partnerData.totalPausedTime || 0;
-            if (partnerData.focusState === FocusState.Paused && partnerData.lastPauseStartTime) {
-                partnerFinalTotalPaused += (now - partnerData.lastPauseStartTime);
-            }
-            
-            const userEffectiveStart = userData.focusStartTime + finalTotalPausedTime;
-            const partnerEffectiveStart = partnerData.focusStartTime + partnerFinalTotalPaused;
-            const effectiveJointStartTime = Math.max(userEffectiveStart, partnerEffectiveStart);
-            const jointDurationMs = now - effectiveJointStartTime;
-            const jointDurationSec = jointDurationMs > 0 ? Math.floor(jointDurationMs / 1000) : 0;
-
-            if (jointDurationSec > 0) {
-                updates[`/dailyStats/${todayDateString}/joint/totalFocusTime`] = firebase.database.ServerValue.increment(jointDurationSec);
-            }
-        }
-        
-        updates[`/users/${userCharacter}/focusState`] = FocusState.Idle;
-        updates[`/users/${userCharacter}/focusStartTime`] = null;
-        updates[`/users/${userCharacter}/totalPausedTime`] = null;
-        updates[`/users/${userCharacter}/lastPauseStartTime`] = null;
+  const roomId = room?.roomId ?? null;
+  const dayBoundary = roomSettings.dayBoundary;
+  // Read through a ref so a settings change does not recreate handleEnd and restart the sync effect.
+  const dayBoundaryRef = useRef(dayBoundary);
+  dayBoundaryRef.current = dayBoundary;
+  const resumeGraceMinutesRef = useRef(resumeGraceMinutes);
+  resumeGraceMinutesRef.current = resumeGraceMinutes;
+  const studyDatesRef = useRef(studyDates);
+  studyDatesRef.current = studyDates;
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const goalsRef = useRef(goals);
+  goalsRef.current = goals;
+  const notificationSettingsRef = useRef(notificationSettings);
+  notificationSettingsRef.current = notificationSettings;
+
+  // System notifications for when the app is in the background; see notifications.ts.
+  const notify = useCallback((kind: NotificationKind, title: string, body: string, tag?: string) => {
+    showSystemNotification(notificationSettingsRef.current, kind, title, body, tag);
+  }, []);
 
-        await database.ref().update(updates);
-    } catch (error) {
-        console.error("Failed to save session data:", error);
-        alert(`Failed to save session data: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-        silentAudioRef.current?.pause();
-        setSessionType(SessionType.None);
-        setShowRewardModal(true);
-    }
-  }, [userCharacter, partnerCharacter]);
+  // Actions still in the journal are newer than anything the backend has sent back.
+  const pendingEntries = journalEntries.filter(entry => entry.roomId === roomId && entry.character === userCharacter);
+  const userSession: SessionState = pendingEntries.length > 0 ? pendingEntries[pendingEntries.length - 1].session : (userStatus ? toSessionState(userStatus) : IDLE_SESSION);
+  const userSessionRef = useRef(userSession);
+  userSessionRef.current = userSession;
+  // Of the person's devices, only the one running the session acts on it; the others mirror it.
+  const deviceId = getDeviceId(deviceStorage);
+  const ownsSession = isSessionOwner(userSession, deviceId);
+  const ownsSessionRef = useRef(ownsSession);
+  ownsSessionRef.current = ownsSession;
+  const {
+    focusState: userFocus,
+    focusStartTime: userFocusStartTime,
+    totalPausedTime: userTotalPausedTime,
+    lastPauseStartTime: userLastPauseStartTime,
+    intervalSchedule: userIntervalSchedule,
+  } = userSession;
+
+  // Every session action is journaled on the device first, then sent to the backend.
+  const recordSessionAction = useCallback((action: JournalAction, session: SessionState, sessionStart: number, record?: NewSessionRecord) => {
+    if (!userCharacter || !roomId) return;
+    sessionJournal.append({ id: createJournalId(), roomId, character: userCharacter, action, sessionStart, deviceId, session, record });
+    replayJournal();
+  }, [userCharacter, roomId, deviceId, replayJournal]);
+
+  const finishSession = useCallback((session: SessionState, partner: UserStatus | null, now = serverClock.now()) => {
+    if (!userCharacter || !isInSession(session.focusState) || !session.focusStartTime) return;
+    const { focusSeconds, jointSeconds, pauses } = computeSessionTotals(session, partner, now);
+    // Joint time runs up to the end of the session, so it is the last jointSeconds of it.
+    const studyDateMatch = jointSeconds > 0 ? matchJointTime(studyDatesRef.current, now - jointSeconds * 1000, now) : null;
+    const completedTasks = tasksRef.current.filter(task => task.done).map(({ id, text }) => ({ id, text }));
+
+    recordSessionAction('end', IDLE_SESSION, session.focusStartTime, {
+        character: userCharacter,
+        partner: jointSeconds > 0 ? partnerCharacter : null,
+        date: getCycleDateString(now, dayBoundaryRef.current),
+        startTime: session.focusStartTime,
+        endTime: now,
+        pauses,
+        focusSeconds,
+        jointSeconds,
+        subjectId: session.subjectId,
+        awayCount: session.awayCount ?? null,
+        awaySeconds: session.awayMs != null ? Math.round(session.awayMs / 1000) : null,
+        completedTasks,
+        studyDateId: studyDateMatch?.date.id ?? null,
+        studyDateSeconds: studyDateMatch?.seconds ?? 0,
+    });
+    silentAudioRef.current?.pause();
+    setSessionType(SessionType.None);
+    setLastCompletedTasks(completedTasks);
+    setShowRewardModal(true);
+  }, [userCharacter, partnerCharacter, recordSessionAction]);
+
+  const handleEnd = useCallback(() => {
+    if (!ownsSessionRef.current) return;
+    finishSession(userSessionRef.current, partnerStatusRef.current);
+  }, [finishSession]);
   
     // --- FULLSCREEN HANDLING ---
     const toggleFullscreen = useCallback(async () => {
@@ -1171,183 +2606,262 @@ const App: React.FC = () => {
     }, []);
 
   // --- AUDIO HANDLING ---
+  // Every layer follows the mix for the current focus state. Silent layers are paused rather than left playing at zero.
+  const activeSoundPreset = getActivePreset(userFocus);
   useEffect(() => {
-    const musicEl = musicRef.current;
-    
-    if (musicEl) musicEl.volume = 0.3;
+    const mix = soundscape[activeSoundPreset];
+    SOUND_LAYERS.forEach(({ id }) => {
+        const layerEl = soundLayerRefs.current[id];
+        if (!layerEl) return;
+        if (isMuted || mix[id] === 0) {
+            layerEl.pause();
+            return;
+        }
+        layerEl.volume = mix[id];
+        if (layerEl.paused) layerEl.play().catch(e => console.error(`Sound layer ${id} play failed`, e));
+    });
+  }, [isMuted, soundscape, activeSoundPreset]);
 
-    if (isMuted) {
-        musicEl?.pause();
-    } else {
-        musicEl?.play().catch(e => console.error("Music play failed", e));
-    }
-  }, [isMuted]);
+  const handleMixChange = useCallback((preset: SoundPreset, layer: SoundLayerId, volume: number) => {
+      setSoundscape(prev => {
+          const next = { ...prev, [preset]: { ...prev[preset], [layer]: volume } };
+          saveSoundscape(next);
+          return next;
+      });
+  }, []);
+
+  // --- CHARACTER CLAIM ---
+  // When another device takes the character over, this one goes back to the character choice.
+  useEffect(() => {
+    if (!roomId || !userCharacter || !authUid) return;
+    return backend.onCharacterClaim(roomId, userCharacter, (claim) => {
+        if (claim && claim.uid !== authUid) {
+            setUserCharacter(null);
+            alert(`${CHARACTER_DATA[userCharacter].name} was taken over on another device.`);
+        }
+    }, (error: Error) => console.error("Character claim listener error:", error));
+  }, [roomId, userCharacter, authUid]);
 
-  // --- FIREBASE REAL-TIME LOGIC ---
+  // --- REAL-TIME SYNC LOGIC ---
   useEffect(() => {
-    if (isAuthenticating || !userCharacter) return;
+    if (isAuthenticating || !userCharacter || !roomId) return;
     
-    const listeners: { ref: any; eventType: string; callback: (snapshot: any) => void; }[] = [];
+    const unsubscribers: Array<() => void> = [];
     const dbErrorHandler = (error: Error) => {
-        console.error("Firebase listener error:", error);
+        console.error("Realtime listener error:", error);
         alert(`A database read error occurred: ${error.message}. The app might not be in sync.`);
     };
 
-    const userStatusRef = database.ref(`users/${userCharacter}`);
-
-    // Check for dangling session on load
-    userStatusRef.get().then((snapshot) => {
-        const data = snapshot.val();
-        if (data && (data.focusState === FocusState.Focusing || data.focusState === FocusState.Paused) && data.focusStartTime) {
-            console.log("Dangling focus session detected. Ending it now.");
-            handleEnd();
+    // A session left running by a reload or a closed tab carries on within the grace window and
+    // otherwise ends at its last heartbeat. Journaled actions for it are replayed instead.
+    Promise.all([
+        backend.getUserStatus(roomId, userCharacter),
+        backend.getUserStatus(roomId, partnerCharacter),
+    ]).then(([data, partnerData]) => {
+        const hasPendingActions = sessionJournal.entries().some(entry => entry.roomId === roomId && entry.character === userCharacter);
+        if (!data || !isInSession(data.focusState) || !data.focusStartTime || hasPendingActions) return;
+        if (data.ownerDeviceId && data.ownerDeviceId !== deviceId && data.onlineDeviceIds.includes(data.ownerDeviceId)) {
+            console.log("The focus session runs on another device; mirroring it.");
+            return;
         }
-    });
+        const lastAlive = getLastAliveTime(data);
+        if (isWithinGrace(lastAlive, serverClock.now(), resumeGraceMinutesRef.current)) {
+            console.log("Resuming the focus session from before the reload.");
+            return;
+        }
+        console.log("Dangling focus session detected. Ending it at its last heartbeat.");
+        finishSession(toSessionState(data), partnerData?.isOnline ? partnerData : null, lastAlive);
+    }).catch((error: Error) => console.error("Could not check for a dangling session:", error));
 
-    const partnerRef = database.ref(`users/${partnerCharacter}`);
-    const connectedRef = database.ref('.info/connected');
+    unsubscribers.push(backend.connectPresence(roomId, userCharacter, deviceId));
 
-    const connectedCallback = (snapshot: any) => {
-        if (snapshot.val() === false) return;
-        
-        userStatusRef.onDisconnect().update({
-            isOnline: false,
-            focusState: FocusState.Idle,
-            focusStartTime: null,
-            totalPausedTime: null,
-            lastPauseStartTime: null,
-        }).then(() => {
-            userStatusRef.update({ isOnline: true }).catch(err => console.error("Could not set user online status:", err));
-        }).catch(err => {
-            console.error("Could not set onDisconnect handler:", err)
-        });
-    };
-    connectedRef.on('value', connectedCallback);
-    listeners.push({ ref: connectedRef, eventType: 'value', callback: connectedCallback });
-
-    const onUserChange = (snapshot: any) => {
-        const data = snapshot.val();
-        if (data) {
-            setUserFocus(data.focusState || FocusState.Idle);
-            setUserFocusStartTime(data.focusStartTime || null);
-            setUserTotalPausedTime(data.totalPausedTime || null);
-            setUserLastPauseStartTime(data.lastPauseStartTime || null);
-        }
-    };
-    userStatusRef.on('value', onUserChange, dbErrorHandler);
-    listeners.push({ ref: userStatusRef, eventType: 'value', callback: onUserChange });
+    unsubscribers.push(backend.onUserStatus(roomId, userCharacter, setUserStatus, dbErrorHandler));
 
-    const onPartnerChange = (snapshot: any) => {
-        const data = snapshot.val();
+    unsubscribers.push(backend.onUserStatus(roomId, partnerCharacter, (data) => {
         const partnerIsCurrentlyOnline = !!(data && data.isOnline);
         setIsPartnerOnline(partnerIsCurrentlyOnline);
+        partnerStatusRef.current = partnerIsCurrentlyOnline ? data : null;
 
-        if (!partnerIsCurrentlyOnline) {
+        if (!data || !partnerIsCurrentlyOnline) {
             setPartnerFocus(FocusState.Idle);
             setPartnerFocusStartTime(null);
             setPartnerTotalPausedTime(null);
             setPartnerLastPauseStartTime(null);
+            setPartnerIntervalSchedule(null);
+            setPartnerSubjectId(null);
+            setPartnerAwayMs(null);
         } else {
-            setPartnerFocus(data.focusState || FocusState.Idle);
-            setPartnerFocusStartTime(data.focusStartTime || null);
-            setPartnerTotalPausedTime(data.totalPausedTime || null);
-            setPartnerLastPauseStartTime(data.lastPauseStartTime || null);
+            setPartnerFocus(data.focusState);
+            setPartnerFocusStartTime(data.focusStartTime);
+            setPartnerTotalPausedTime(data.totalPausedTime);
+            setPartnerLastPauseStartTime(data.lastPauseStartTime);
+            setPartnerIntervalSchedule(data.intervalSchedule);
+            setPartnerSubjectId(data.subjectId);
+            setPartnerAwayMs(data.awayMs);
         }
-    };
-    partnerRef.on('value', onPartnerChange, dbErrorHandler);
-    listeners.push({ ref: partnerRef, eventType: 'value', callback: onPartnerChange });
+    }, dbErrorHandler));
     
-    const rewardRef = database.ref(`users/${userCharacter}/lastRewardReceived`);
-    const onRewardReceived = (snapshot: any) => {
-        const reward = snapshot.val();
-        if(reward) {
-            setReceivedReward(reward);
-            rewardRef.set(null).catch(e => console.error("Failed to clear received reward:", e));
-        }
-    };
-    rewardRef.on('value', onRewardReceived, dbErrorHandler);
-    listeners.push({ ref: rewardRef, eventType: 'value', callback: onRewardReceived });
-
-    const messageRef = database.ref(`users/${userCharacter}/lastMessageReceived`);
-    const onMessageReceived = (snapshot: any) => {
-        const message = snapshot.val();
-        if(message) {
-            setReceivedMessage(message);
-            messageRef.set(null).catch(e => console.error("Failed to clear received message:", e));
-        }
-    };
-    messageRef.on('value', onMessageReceived, dbErrorHandler);
-    listeners.push({ ref: messageRef, eventType: 'value', callback: onMessageReceived });
-    
-    // --- DAILY STATS LISTENERS ---
-    const today = getCycleDateString(Date.now());
-    const yesterday = getCycleDateString(Date.now() - 24 * 60 * 60 * 1000);
-
-    const statRefs = {
-        userToday: database.ref(`dailyStats/${today}/${userCharacter}/totalFocusTime`),
-        userYesterday: database.ref(`dailyStats/${yesterday}/${userCharacter}/totalFocusTime`),
-        partnerToday: database.ref(`dailyStats/${today}/${partnerCharacter}/totalFocusTime`),
-        partnerYesterday: database.ref(`dailyStats/${yesterday}/${partnerCharacter}/totalFocusTime`),
-        jointToday: database.ref(`dailyStats/${today}/joint/totalFocusTime`),
-        jointYesterday: database.ref(`dailyStats/${yesterday}/joint/totalFocusTime`),
+    // Only messages arriving while the app is open pop up; older unread ones wait in the inbox.
+    let knownUnreadIds: Set<string> | null = null;
+    unsubscribers.push(backend.onUnreadInbox(roomId, userCharacter, (items) => {
+        const unreadIds = new Set(items.map(item => item.id));
+        const fresh = knownUnreadIds ? items.filter(item => !knownUnreadIds!.has(item.id)).reverse() : [];
+        knownUnreadIds = unreadIds;
+        setUnreadInbox(items);
+        setArrivals(prev => [...prev.filter(item => unreadIds.has(item.id)), ...fresh]);
+        fresh.forEach(item => notify(getRenderer(item.message).notificationKind, 'Polito Focus', `${displayNamesRef.current[item.message.from]} ${describeMessage(item.message)}`, item.id));
+    }, dbErrorHandler));
+    unsubscribers.push(backend.onRoomSettings(roomId, setRoomSettings, dbErrorHandler));
+    unsubscribers.push(backend.onGoals(roomId, setGoals, dbErrorHandler));
+    unsubscribers.push(backend.onStudyDates(roomId, setStudyDates, dbErrorHandler));
+    unsubscribers.push(backend.onSubjects(roomId, setSubjects, dbErrorHandler));
+    unsubscribers.push(backend.onProfiles(roomId, setProfiles, dbErrorHandler));
+    unsubscribers.push(backend.onTasks(roomId, userCharacter, setTasks, dbErrorHandler));
+    unsubscribers.push(backend.onTasks(roomId, partnerCharacter, setPartnerTasks, dbErrorHandler));
+
+    return () => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
     };
+  }, [isAuthenticating, userCharacter, partnerCharacter, roomId, deviceId, finishSession, notify]);
+
+  // --- CYCLE DAY TRACKING ---
+  useEffect(() => {
+    const updateToday = () => setToday(getCycleDateString(serverClock.now(), dayBoundary));
+    updateToday();
+    const interval = setInterval(updateToday, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [dayBoundary]);
+
+  // --- DAILY STATS LISTENERS ---
+  useEffect(() => {
+    if (isAuthenticating || !userCharacter || !roomId) return;
 
-    const statCallbacks = {
-        userToday: (snap: any) => setUserTodayTime(snap.val() || 0),
-        userYesterday: (snap: any) => setUserYesterdayTime(snap.val() || 0),
-        partnerToday: (snap: any) => setPartnerTodayTime(snap.val() || 0),
-        partnerYesterday: (snap: any) => setPartnerYesterdayTime(snap.val() || 0),
-        jointToday: (snap: any) => setJointTodayTime(snap.val() || 0),
-        jointYesterday: (snap: any) => setJointYesterdayTime(snap.val() || 0),
+    const unsubscribers: Array<() => void> = [];
+    const dbErrorHandler = (error: Error) => {
+        console.error("Stats listener error:", error);
+        alert(`A database read error occurred: ${error.message}. The app might not be in sync.`);
     };
-    
-    (Object.keys(statRefs) as Array<keyof typeof statRefs>).forEach(key => {
-        const ref = statRefs[key];
-        const callback = statCallbacks[key];
-        ref.on('value', callback, dbErrorHandler);
-        listeners.push({ ref, eventType: 'value', callback });
-    });
+    const yesterday = addDays(today, -1);
+
+    // The first delivery is what was already there; only later ones can reach a goal.
+    let previousToday: DailyStats | null = null;
+    unsubscribers.push(backend.onDailyStats(roomId, today, (stats) => {
+        if (previousToday) {
+            const before = previousToday;
+            ([userCharacter, 'joint'] as StatsOwner[]).forEach(owner => {
+                if (goalsRef.current[owner] && !meetsGoal(before, owner, goalsRef.current) && meetsGoal(stats, owner, goalsRef.current)) {
+                    notify('goal', 'Goal reached! 🎯', owner === 'joint' ? 'You reached your joint goal for today.' : 'You reached your focus goal for today.', `goal-${owner}`);
+                }
+            });
+        }
+        previousToday = stats;
+        setUserTodayTime(stats[userCharacter]?.totalFocusTime || 0);
+        setPartnerTodayTime(stats[partnerCharacter]?.totalFocusTime || 0);
+        setJointTodayTime(stats.joint?.totalFocusTime || 0);
+    }, dbErrorHandler));
+
+    unsubscribers.push(backend.onDailyStats(roomId, yesterday, (stats) => {
+        setUserYesterdayTime(stats[userCharacter]?.totalFocusTime || 0);
+        setPartnerYesterdayTime(stats[partnerCharacter]?.totalFocusTime || 0);
+        setJointYesterdayTime(stats.joint?.totalFocusTime || 0);
+    }, dbErrorHandler));
 
+    // --- STREAKS ---
+    unsubscribers.push(backend.onDailyStatsRange(roomId, addDays(today, -(STREAK_WINDOW_DAYS - 1)), today, setStreakStats, dbErrorHandler));
 
     return () => {
-        listeners.forEach(({ ref, eventType, callback }) => ref.off(eventType, callback));
+        unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [isAuthenticating, userCharacter, partnerCharacter, handleEnd]);
+  }, [isAuthenticating, userCharacter, partnerCharacter, roomId, today, notify]);
   
-  // --- TIMER CALCULATION LOGIC ---
+  // --- SESSION HISTORY ---
   useEffect(() => {
-    const calculateElapsed = (
-      focus: FocusState, 
-      startTime: number | null, 
-      totalPaused: number | null, 
-      lastPauseStart: number | null
-    ) => {
-      if (!startTime) return 0;
-      const now = Date.now();
-      let currentTotalPaused = totalPaused || 0;
-      if (focus === FocusState.Paused && lastPauseStart) {
-        currentTotalPaused += now - lastPauseStart;
-      }
-      const elapsed = now - startTime - currentTotalPaused;
-      return Math.floor(elapsed / 1000);
-    };
+    if (!showHistory || !roomId || !historyOwner) return;
+    return backend.onSessionHistory(roomId, historyOwner, historyLimit, setHistoryRecords, (error: Error) => {
+        console.error("Failed to load session history:", error);
+    });
+  }, [showHistory, roomId, historyOwner, historyLimit]);
+
+  // --- INBOX ---
+  useEffect(() => {
+    if (!showInbox || !roomId || !userCharacter) return;
+    return backend.onInbox(roomId, userCharacter, inboxLimit, setInboxItems, (error: Error) => {
+        console.error("Failed to load the inbox:", error);
+    });
+  }, [showInbox, roomId, userCharacter, inboxLimit]);
+
+  // --- STATS DASHBOARD ---
+  useEffect(() => {
+    if (!showDashboard || !roomId || !dashboardRange) return;
+    return backend.onDailyStatsRange(roomId, dashboardRange.from, dashboardRange.to, setDashboardStats, (error: Error) => {
+        console.error("Failed to load stats:", error);
+    });
+  }, [showDashboard, roomId, dashboardRange?.from, dashboardRange?.to]);
 
+  // --- TIMER CALCULATION LOGIC ---
+  useEffect(() => {
     const interval = setInterval(() => {
-      const userSeconds = calculateElapsed(userFocus, userFocusStartTime, userTotalPausedTime, userLastPauseStartTime);
-      setUserElapsedSeconds(userSeconds > 0 ? userSeconds : 0);
-      
-      const partnerSeconds = calculateElapsed(partnerFocus, partnerFocusStartTime, partnerTotalPausedTime, partnerLastPauseStartTime);
-      setPartnerElapsedSeconds(partnerSeconds > 0 ? partnerSeconds : 0);
+      const now = serverClock.now();
+      setUserElapsedSeconds(getElapsedSeconds({
+          focusState: userFocus,
+          focusStartTime: userFocusStartTime,
+          totalPausedTime: userTotalPausedTime,
+          lastPauseStartTime: userLastPauseStartTime,
+      }, now));
+      setPartnerElapsedSeconds(getElapsedSeconds({
+          focusState: partnerFocus,
+          focusStartTime: partnerFocusStartTime,
+          totalPausedTime: partnerTotalPausedTime,
+          lastPauseStartTime: partnerLastPauseStartTime,
+      }, now));
+
+      setUserPhase(isInSession(userFocus) && userIntervalSchedule ? getIntervalPhase(userIntervalSchedule, now) : null);
+      setPartnerPhase(isInSession(partnerFocus) && partnerIntervalSchedule ? getIntervalPhase(partnerIntervalSchedule, now) : null);
     }, 1000);
 
     return () => clearInterval(interval);
 
   }, [
-    userFocus, userFocusStartTime, userTotalPausedTime, userLastPauseStartTime,
-    partnerFocus, partnerFocusStartTime, partnerTotalPausedTime, partnerLastPauseStartTime
+    userFocus, userFocusStartTime, userTotalPausedTime, userLastPauseStartTime, userIntervalSchedule,
+    partnerFocus, partnerFocusStartTime, partnerTotalPausedTime, partnerLastPauseStartTime, partnerIntervalSchedule
   ]);
 
+  // --- SESSION HEARTBEAT ---
+  useEffect(() => {
+    if (!roomId || !userCharacter || !isInSession(userFocus) || !ownsSession) return;
+    let lastBeat = serverClock.now();
+    const beat = () => backend.sendHeartbeat(roomId, userCharacter, lastBeat).catch((error: Error) => {
+        console.error("Could not send the session heartbeat:", error);
+    });
+    beat();
+    const interval = setInterval(() => {
+        const now = serverClock.now();
+        // A suspended device misses its beats; past the grace window the session ends where they stopped.
+        if (!isWithinGrace(lastBeat, now, resumeGraceMinutesRef.current)) {
+            finishSession(userSessionRef.current, partnerStatusRef.current, lastBeat);
+            return;
+        }
+        lastBeat = now;
+        beat();
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [roomId, userCharacter, userFocus, ownsSession, finishSession]);
+
+  // --- STUDY DATE PROMPT ---
+  useEffect(() => {
+    const checkDueDate = () => setDueStudyDate(getDueDate(studyDates, serverClock.now()));
+    checkDueDate();
+    const interval = setInterval(checkDueDate, 15 * 1000);
+    return () => clearInterval(interval);
+  }, [studyDates]);
+
   // --- JOIN NOTIFICATION LOGIC ---
+  useEffect(() => {
+      if (partnerFocus === FocusState.Focusing && prevPartnerFocus === FocusState.Idle) {
+          notify('partnerStarted', 'Polito Focus', isInSession(userFocus) ? `${partnerDisplayName} joined your session!` : `${partnerDisplayName} started studying.`);
+      }
+  }, [partnerFocus, prevPartnerFocus, userFocus, partnerDisplayName, notify]);
+
   useEffect(() => {
       if (userFocus === FocusState.Focusing && partnerFocus === FocusState.Focusing && prevPartnerFocus !== FocusState.Focusing) {
           setShowJoinNotification(true);
@@ -1368,6 +2882,7 @@ const App: React.FC = () => {
         setHiSent(false);
     } else if (isPartnerOnline && !prevIsPartnerOnline && partnerFocus === FocusState.Idle) {
         setShowOnlineNotification(true);
+        notify('partnerOnline', 'Polito Focus', `${partnerDisplayName} is online. Say hi!`);
         if (onlineNotificationTimerRef.current) {
             clearTimeout(onlineNotificationTimerRef.current);
         }
@@ -1375,7 +2890,7 @@ const App: React.FC = () => {
             setShowOnlineNotification(false);
         }, 15000);
     }
-  }, [isPartnerOnline, prevIsPartnerOnline, partnerFocus, prevPartnerFocus]);
+  }, [isPartnerOnline, prevIsPartnerOnline, partnerFocus, prevPartnerFocus, partnerDisplayName, notify]);
   
   // --- OFFLINE NOTIFICATION LOGIC ---
   useEffect(() => {
@@ -1392,66 +2907,228 @@ const App: React.FC = () => {
       setIsMuted(prev => !prev);
   }, []);
 
-  const startFocusing = useCallback(() => {
-    if (userCharacter) {
-      const userRef = database.ref(`users/${userCharacter}`);
-      userRef.update({
-        focusState: FocusState.Focusing,
-        focusStartTime: firebase.database.ServerValue.TIMESTAMP,
-        totalPausedTime: 0,
-        lastPauseStartTime: null,
-      }).catch(err => {
-          console.error("Failed to start focus session:", err);
-          alert("Could not start the focus session. Your action was not saved. Please check your connection and try again.");
-      });
-      silentAudioRef.current?.play().catch(e => console.error("Silent audio could not be played", e));
-    }
-  }, [userCharacter]);
+  // A subject removed since it was picked is dropped rather than tagged on the session.
+  const selectedSubject = findSubject(subjects, selectedSubjectId);
+
+  const startFocusing = useCallback((interval: IntervalSettings | IntervalSchedule | null) => {
+    autoPausedForBreakRef.current = false;
+    const now = serverClock.now();
+    const subjectId = selectedSubject?.id ?? null;
+    saveLastSubjectId(subjectId);
+    recordSessionAction('start', startSession(interval, now, subjectId, distractionSettings.enabled, deviceId), now);
+    silentAudioRef.current?.play().catch(e => console.error("Silent audio could not be played", e));
+  }, [recordSessionAction, selectedSubject, distractionSettings.enabled, deviceId]);
 
-  const handleStart = useCallback(() => startFocusing(), [startFocusing]);
-  const handleJoin = useCallback(() => startFocusing(), [startFocusing]);
+  const handleStart = useCallback(() => startFocusing(isIntervalMode ? intervalSettings : null), [startFocusing, isIntervalMode, intervalSettings]);
+  // Joining adopts the partner's schedule so both of you break at the same moment.
+  const handleJoin = useCallback(() => startFocusing(partnerIntervalSchedule), [startFocusing, partnerIntervalSchedule]);
 
   const handlePause = useCallback(() => {
-    if (userCharacter) {
-      const userRef = database.ref(`users/${userCharacter}`);
-      userRef.update({
-        focusState: FocusState.Paused,
-        lastPauseStartTime: firebase.database.ServerValue.TIMESTAMP,
-      }).catch(err => {
-        console.error("Failed to pause session:", err);
-        alert("Could not pause the session. Your state may be out of sync. Please try again.");
-      });
-      silentAudioRef.current?.pause();
+    const session = userSessionRef.current;
+    if (!ownsSessionRef.current || session.focusState !== FocusState.Focusing || !session.focusStartTime) return;
+    recordSessionAction('pause', pauseSession(session, serverClock.now()), session.focusStartTime);
+    silentAudioRef.current?.pause();
+  }, [recordSessionAction]);
+
+  const handleResume = useCallback(() => {
+    const session = userSessionRef.current;
+    autoPausedForBreakRef.current = false;
+    if (!ownsSessionRef.current || session.focusState !== FocusState.Paused || !session.focusStartTime) return;
+    recordSessionAction('resume', resumeSession(session, serverClock.now()), session.focusStartTime);
+    silentAudioRef.current?.play().catch(e => console.error("Silent audio could not be played", e));
+  }, [recordSessionAction]);
+
+  // Moves the session to this device, for when it was started on another one or that one went away.
+  const handleContinueHere = useCallback(() => {
+    const session = userSessionRef.current;
+    if (!isInSession(session.focusState) || !session.focusStartTime) return;
+    recordSessionAction('handover', handOverSession(session, deviceId), session.focusStartTime);
+    if (session.focusState === FocusState.Focusing) {
+        silentAudioRef.current?.play().catch(e => console.error("Silent audio could not be played", e));
     }
-  }, [userCharacter]);
+  }, [recordSessionAction, deviceId]);
 
-  const handleResume = useCallback(async () => {
-    if (!userCharacter) return;
-    try {
-        const userRef = database.ref(`users/${userCharacter}`);
-        const snapshot = await userRef.get();
-        const data = snapshot.val();
-
-        if (data && data.focusState === FocusState.Paused && data.lastPauseStartTime) {
-            const pausedDuration = Date.now() - data.lastPauseStartTime;
-            const newTotalPausedTime = (data.totalPausedTime || 0) + pausedDuration;
-
-            await userRef.update({
-                focusState: FocusState.Focusing,
-                totalPausedTime: newTotalPausedTime,
-                lastPauseStartTime: null
-            });
-            silentAudioRef.current?.play().catch(e => console.error("Silent audio could not be played", e));
+  // --- DISTRACTION TRACKING ---
+  // While focusing, leaving the tab or the window starts an away stretch that is booked on the session when the user returns.
+  useEffect(() => {
+    if (!distractionSettings.enabled || userFocus !== FocusState.Focusing || !ownsSession) return;
+    const autoPauseMs = distractionSettings.autoPauseMinutes ? distractionSettings.autoPauseMinutes * 60 * 1000 : null;
+    let awayStart: number | null = null;
+    let autoPauseTimer: number | null = null;
+
+    // Past the auto-pause limit, the session pauses where the limit ran out rather than on return.
+    const endAwayStretch = (end: number) => {
+        if (awayStart === null) return;
+        const awayMs = end - awayStart;
+        const start = awayStart;
+        awayStart = null;
+        if (autoPauseTimer) clearTimeout(autoPauseTimer);
+        const session = userSessionRef.current;
+        if (session.focusState !== FocusState.Focusing || !session.focusStartTime) return;
+        if (autoPauseMs !== null && awayMs >= autoPauseMs) {
+            recordSessionAction('pause', pauseSession(recordDistraction(session, autoPauseMs), start + autoPauseMs), session.focusStartTime);
+            silentAudioRef.current?.pause();
+        } else if (awayMs >= MIN_AWAY_MS) {
+            recordSessionAction('distraction', recordDistraction(session, awayMs), session.focusStartTime);
         }
-    } catch (error) {
-        console.error("Failed to resume session:", error);
-        alert("Could not resume the session. Your state may be out of sync. Please try again.");
+    };
+
+    const handleAwayChange = () => {
+        const now = serverClock.now();
+        const isAway = document.visibilityState === 'hidden' || !document.hasFocus();
+        if (!isAway) {
+            endAwayStretch(now);
+        } else if (awayStart === null) {
+            awayStart = now;
+            if (autoPauseMs !== null) autoPauseTimer = window.setTimeout(() => endAwayStretch(serverClock.now()), autoPauseMs);
+        }
+    };
+
+    handleAwayChange();
+    document.addEventListener('visibilitychange', handleAwayChange);
+    window.addEventListener('blur', handleAwayChange);
+    window.addEventListener('focus', handleAwayChange);
+    return () => {
+        document.removeEventListener('visibilitychange', handleAwayChange);
+        window.removeEventListener('blur', handleAwayChange);
+        window.removeEventListener('focus', handleAwayChange);
+        if (autoPauseTimer) clearTimeout(autoPauseTimer);
+    };
+  }, [distractionSettings, userFocus, ownsSession, recordSessionAction]);
+
+  // --- INTERVAL PHASE TRANSITIONS ---
+  useEffect(() => {
+    if (!userPhase || !prevUserPhase || userPhase.phase === prevUserPhase) return;
+    playChime();
+    notify('interval', `${PHASE_LABELS[userPhase.phase]} time`, isBreakPhase(userPhase.phase) ? 'Time for a break, polito.' : 'Back to focusing!', 'interval');
+    if (isBreakPhase(userPhase.phase) && userFocus === FocusState.Focusing) {
+        autoPausedForBreakRef.current = true;
+        handlePause();
+    } else if (!isBreakPhase(userPhase.phase) && userFocus === FocusState.Paused && autoPausedForBreakRef.current) {
+        handleResume();
     }
-  }, [userCharacter]);
+  }, [userPhase, prevUserPhase, userFocus, handlePause, handleResume, notify]);
+
+  const handleToggleIntervalMode = useCallback(() => {
+      setIsIntervalMode(prev => !prev);
+  }, []);
+
+  const handleIntervalSettingsChange = useCallback((settings: IntervalSettings) => {
+      setIntervalSettings(settings);
+      saveIntervalSettings(settings);
+  }, []);
 
   const handleToggleStats = useCallback(() => {
       setShowStats(prev => !prev);
   }, []);
+
+  const handleOpenHistory = useCallback(() => {
+      setShowStats(false);
+      setHistoryOwner(userCharacter);
+      setHistoryLimit(HISTORY_PAGE_SIZE);
+      setHistoryRecords([]);
+      setShowHistory(true);
+  }, [userCharacter]);
+
+  const handleGoalChange = useCallback((owner: StatsOwner, minutes: number | null) => {
+      if (!roomId) return;
+      backend.setGoal(roomId, owner, minutes).catch((error: Error) => {
+          console.error("Failed to save goal:", error);
+          alert("Could not save the goal. Please check your connection.");
+      });
+  }, [roomId]);
+
+  const handleOpenDashboard = useCallback(() => {
+      setShowStats(false);
+      setDashboardRange({ preset: 'week', from: addDays(today, -6), to: today });
+      setShowDashboard(true);
+  }, [today]);
+
+  const handleDayBoundaryChange = useCallback((boundary: DayBoundary) => {
+      if (!roomId) return;
+      backend.updateRoomSettings(roomId, { dayBoundary: boundary }).catch((error: Error) => {
+          console.error("Failed to save settings:", error);
+          alert("Could not save the settings. Please check your connection.");
+      });
+  }, [roomId]);
+
+  const handleResumeGraceChange = useCallback((minutes: number) => {
+      setResumeGraceMinutes(minutes);
+      saveResumeGraceMinutes(minutes);
+  }, []);
+
+  const handleNotificationSettingsChange = useCallback((settings: NotificationSettings) => {
+      setNotificationSettings(settings);
+      saveNotificationSettings(settings);
+  }, []);
+
+  const handleRequestNotificationPermission = useCallback(() => {
+      requestNotificationPermission().then(setNotificationPermission);
+  }, []);
+
+  const handleAddTask = useCallback((text: string) => {
+      if (!roomId || !userCharacter) return;
+      backend.addTask(roomId, userCharacter, text).catch((error: Error) => {
+          console.error("Failed to add task:", error);
+          alert("Could not add the task. Please check your connection.");
+      });
+  }, [roomId, userCharacter]);
+
+  const handleToggleTask = useCallback((task: Task) => {
+      if (!roomId || !userCharacter) return;
+      backend.setTaskDone(roomId, userCharacter, task.id, !task.done).catch((error: Error) => {
+          console.error("Failed to update task:", error);
+          alert("Could not update the task. Please check your connection.");
+      });
+  }, [roomId, userCharacter]);
+
+  const handleRemoveTask = useCallback((task: Task) => {
+      if (!roomId || !userCharacter) return;
+      backend.removeTask(roomId, userCharacter, task.id).catch((error: Error) => {
+          console.error("Failed to remove task:", error);
+          alert("Could not remove the task. Please check your connection.");
+      });
+  }, [roomId, userCharacter]);
+
+  const handleAddSubject = useCallback((subject: NewSubject) => {
+      if (!roomId) return;
+      backend.addSubject(roomId, subject).catch((error: Error) => {
+          console.error("Failed to add subject:", error);
+          alert("Could not add the subject. Please check your connection.");
+      });
+  }, [roomId]);
+
+  const handleRemoveSubject = useCallback((subjectId: string) => {
+      if (!roomId) return;
+      backend.removeSubject(roomId, subjectId).catch((error: Error) => {
+          console.error("Failed to remove subject:", error);
+          alert("Could not remove the subject. Please check your connection.");
+      });
+  }, [roomId]);
+
+  const handleProfileSave = useCallback((profile: Profile) => {
+      if (!roomId || !userCharacter) return;
+      backend.updateProfile(roomId, userCharacter, profile).catch((error: Error) => {
+          console.error("Failed to save the profile:", error);
+          alert("Could not save your profile. Please check your connection.");
+      });
+  }, [roomId, userCharacter]);
+
+  const handleScenePackChange = useCallback((packId: string) => {
+      setScenePack(findScenePack(packId));
+      saveScenePackId(packId);
+  }, []);
+
+  const handleDistractionSettingsChange = useCallback((settings: DistractionSettings) => {
+      setDistractionSettings(settings);
+      saveDistractionSettings(settings);
+  }, []);
+
+  const handleHistoryOwnerChange = (owner: Character) => {
+      setHistoryOwner(owner);
+      setHistoryLimit(HISTORY_PAGE_SIZE);
+      setHistoryRecords([]);
+  };
   
   // --- KEYBOARD SHORTCUTS ---
   useEffect(() => {
@@ -1487,6 +3164,13 @@ const App: React.FC = () => {
             case 'KeyS':
                 handleToggleStats();
                 break;
+            case 'KeyH':
+                if (showHistory) {
+                    setShowHistory(false);
+                } else {
+                    handleOpenHistory();
+                }
+                break;
             case 'KeyF':
                 toggleFullscreen();
                 break;
@@ -1500,85 +3184,161 @@ const App: React.FC = () => {
     return () => {
         window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [userFocus, partnerFocus, isFullscreen, handleStart, handleJoin, handlePause, handleResume, handleEnd, handleToggleMute, handleToggleStats, toggleFullscreen]);
+  }, [userFocus, partnerFocus, isFullscreen, showHistory, handleStart, handleJoin, handlePause, handleResume, handleEnd, handleToggleMute, handleToggleStats, handleOpenHistory, toggleFullscreen]);
 
 
-  const handleCharacterSelect = (character: Character) => {
-    setIsSelectingCharacter(true);
+  const handleRoomReady = (newRoom: Room) => {
+    saveRoom(newRoom);
+    setRoom(newRoom);
+  };
+
+  const handleCreateRoom = async () => {
+    handleRoomReady(await createRoom());
+  };
+
+  const handleJoinRoom = async (code: string) => {
+    handleRoomReady(await joinRoom(code));
+  };
 
-    // Optimistic UI update: transition to the main app immediately.
-    setUserCharacter(character);
-
-    // Attempt to update Firebase in the background.
-    const userRef = database.ref(`users/${character}`);
-    userRef.update({
-        focusState: FocusState.Idle,
-        focusStartTime: null,
-        isOnline: true,
-    })
-    .then(() => {
-        // Successfully connected and updated.
-        // The app is already on the main screen, so we just need to enable audio.
+  const handleLeaveRoom = () => {
+    saveRoom(null);
+    setRoom(null);
+  };
+
+  // A character is bound to this identity before the app opens; one held by another identity can be taken
+  // over once that identity has no device connected.
+  const handleCharacterSelect = async (character: Character) => {
+    if (!room || !authUid) return;
+    setIsSelectingCharacter(true);
+    const name = CHARACTER_DATA[character].name;
+    try {
+        // Also covers rooms saved before membership existed and identities switched by signing in with an email.
+        await backend.joinRoom(room.roomId, room.pairingCode);
+        let result = await backend.claimCharacter(room.roomId, character, authUid, false);
+        if (result === 'heldByOther' && window.confirm(`${name} belongs to another device. If that device is yours, take over? It will be signed out of ${name}.`)) {
+            result = await backend.claimCharacter(room.roomId, character, authUid, true);
+            if (result === 'heldByOther') alert(`${name} is still open on another device. Close it there first, or sign in there and here with the same email.`);
+        }
+        if (result === 'holdsPartner') {
+            alert(`You already play ${CHARACTER_DATA[getPartnerCharacter(character)].name} in this room. ${name} stays with your partner.`);
+        }
+        if (result !== 'claimed') return;
+        setUserCharacter(character);
         setIsMuted(false);
-    })
-    .catch((error: Error) => {
-        console.error("Firebase update failed during character selection:", error);
-        alert("Could not save your character choice. Please check your internet connection and refresh the page.");
-        // Revert the UI state if the connection fails.
-        setUserCharacter(null);
-    })
-    .finally(() => {
+    } catch (error) {
+        console.error("Backend update failed during character selection:", error);
+        alert("Could not save your character choice. Please check your internet connection and try again.");
+    } finally {
         setIsSelectingCharacter(false);
-    });
+    }
+  };
+
+  const handleSignInWithEmail = async (email: string, password: string) => {
+    setAuthUid(await backend.signInWithEmail(email, password));
+    setLinkedEmail(backend.getLinkedEmail());
   };
 
-  const sendReward = (recipient: Character, reward: Omit<Reward, 'from'>) => {
-      if (!userCharacter) return;
-      const fullReward: Reward = { ...reward, from: userCharacter };
-      database.ref(`users/${recipient}/lastRewardReceived`).set(fullReward)
+  const handleLinkEmail = async (email: string, password: string) => {
+    await backend.linkEmail(email, password);
+    setLinkedEmail(backend.getLinkedEmail());
+  };
+
+  // New arrivals pop up one at a time, oldest first.
+  const currentArrival = arrivals.length > 0 ? arrivals[0] : null;
+
+  const sendMessage = (recipient: Character, draft: MessageDraft) => {
+      if (!userCharacter || !roomId) return;
+      backend.sendMessage(roomId, recipient, createMessage(userCharacter, draft))
         .catch((error: Error) => {
-            console.error("Firebase write error:", error);
-            alert(`Failed to send reward: ${error.message}`);
+            console.error("Backend write error:", error);
+            alert(`Failed to send message: ${error.message}`);
         });
   }
 
-  const handleSendRewardFromModal = (reward: Omit<Reward, 'from'>) => {
-    sendReward(partnerCharacter, reward);
+  const handleSendRewardFromModal = (draft: MessageDraft) => {
+    sendMessage(partnerCharacter, draft);
     setShowRewardModal(false);
   };
-  
-  const handleRespondToReward = (reward: Omit<Reward, 'from'>) => {
-      if (!receivedReward) return;
-      sendReward(receivedReward.from, reward);
-      setReceivedReward(null);
-  }
 
-  const handleAcknowledgeReward = () => {
-    if (!receivedReward || !userCharacter) return;
-    sendReward(receivedReward.from, { type: RewardType.Heart });
-    setReceivedReward(null);
+  const markInboxRead = (itemIds: string[]) => {
+      if (!userCharacter || !roomId || itemIds.length === 0) return;
+      setArrivals(prev => prev.filter(item => !itemIds.includes(item.id)));
+      backend.markInboxRead(roomId, userCharacter, itemIds).catch((error: Error) => {
+          console.error("Failed to mark messages as read:", error);
+      });
+  };
+
+  const dismissArrival = () => {
+      if (currentArrival) markInboxRead([currentArrival.id]);
+  };
+
+  const handleReplyToArrival = (draft: MessageDraft) => {
+      if (!currentArrival) return;
+      sendMessage(currentArrival.message.from, draft);
+      dismissArrival();
+  };
+
+  const handleJoinFromInvite = () => {
+      dismissArrival();
+      if (userFocus === FocusState.Idle) handleJoin();
   };
 
   const handleSendHi = () => {
-    if (!userCharacter) return;
-    const message: GreetingMessage = { from: userCharacter, content: "hiiii", type: "GREETING" };
-    database.ref(`users/${partnerCharacter}/lastMessageReceived`).set(message).catch(error => {
-        console.error("Failed to send hi:", error);
-        alert("Could not send message. Please check your connection.");
-    });
+    sendMessage(partnerCharacter, { type: 'greeting', text: 'hiiii' });
     setHiSent(true);
   };
 
-  const handleReactToMessage = (rewardType: RewardType.Heart | RewardType.Kisses | RewardType.Hugs) => {
-    if (!receivedMessage || !userCharacter) return;
-    sendReward(receivedMessage.from, { type: rewardType });
-    setReceivedMessage(null);
+  const handleNudge = () => sendMessage(partnerCharacter, { type: 'nudge' });
+
+  const handleInvite = () => sendMessage(partnerCharacter, { type: 'session-invite' });
+
+  const handleProposeStudyDate = (date: NewStudyDate) => {
+      if (!roomId) return;
+      setShowStudyDateModal(false);
+      backend.proposeStudyDate(roomId, date)
+        .then(dateId => sendMessage(partnerCharacter, { type: 'study-date', dateId, startTime: date.startTime, plannedMinutes: date.plannedMinutes, topic: date.topic }))
+        .catch((error: Error) => {
+            console.error("Backend write error:", error);
+            alert(`Failed to plan the study date: ${error.message}`);
+        });
+  };
+
+  const setStudyDateStatus = (dateId: string, status: StudyDate['status']) => {
+      if (!roomId) return;
+      backend.setStudyDateStatus(roomId, dateId, status).catch((error: Error) => {
+          console.error("Backend write error:", error);
+          alert(`Failed to update the study date: ${error.message}`);
+      });
+  };
+
+  const handleRespondToStudyDate = (dateId: string, accept: boolean) => {
+      // Only a date still waiting for an answer can be accepted; it may have been called off meanwhile.
+      const date = studyDates.find(candidate => candidate.id === dateId);
+      if (!date || date.status !== 'pending') {
+          alert("This study date is no longer open.");
+          return;
+      }
+      setStudyDateStatus(dateId, accept ? 'accepted' : 'declined');
+  };
+
+  const handleRespondToStudyDateInvite = (dateId: string, accept: boolean) => {
+      handleRespondToStudyDate(dateId, accept);
+      dismissArrival();
+  };
+
+  const handleStartStudyDate = () => {
+      if (!dueStudyDate) return;
+      setPostponedDateIds(prev => [...prev, dueStudyDate.id]);
+      if (isInSession(partnerFocus)) handleJoin();
+      else handleStart();
   };
 
-  const handleRespondToMessage = (reward: Omit<Reward, 'from'>) => {
-      if (!receivedMessage) return;
-      sendReward(receivedMessage.from, reward);
-      setReceivedMessage(null);
+  const handleOpenInbox = () => {
+      setInboxNewIds(unreadInbox.map(item => item.id));
+      setInboxLimit(INBOX_PAGE_SIZE);
+      setInboxItems([]);
+      setShowInbox(true);
+      markInboxRead(unreadInbox.map(item => item.id));
   };
 
   const handleCloseOnlineNotification = () => {
@@ -1589,6 +3349,11 @@ const App: React.FC = () => {
       setShowOnlineNotification(false);
   };
   
+  const streaks = useMemo(
+    () => computeStreaks(streakStats, today, userCharacter ? [userCharacter, partnerCharacter] : [], goals),
+    [streakStats, goals, today, userCharacter, partnerCharacter]
+  );
+
   if (isAuthenticating) {
     return (
         <div className="w-full h-screen bg-[#f3e5ab] flex flex-col justify-center items-center">
@@ -1614,17 +3379,34 @@ const App: React.FC = () => {
       );
   }
 
-  if (!userCharacter) {
-    return <OnboardingScreen onSelect={handleCharacterSelect} isSelecting={isSelectingCharacter} />;
+  if (!room || !userCharacter) {
+    return (
+        <OnboardingScreen
+            room={room}
+            onCreateRoom={handleCreateRoom}
+            onJoinRoom={handleJoinRoom}
+            onLeaveRoom={handleLeaveRoom}
+            onSelect={handleCharacterSelect}
+            isSelecting={isSelectingCharacter}
+            linkedEmail={linkedEmail}
+            onSignInWithEmail={handleSignInWithEmail}
+        />
+    );
   }
   
   const isUserInSession = userFocus === FocusState.Focusing || userFocus === FocusState.Paused;
   const isPartnerInSession = partnerFocus === FocusState.Focusing || partnerFocus === FocusState.Paused;
+  // Today's progress includes the session still running, so the ring fills up live.
+  const userGoalMinutes = goals[userCharacter];
+  const userGoal = userGoalMinutes ? { seconds: userTodayTime + (isUserInSession ? userElapsedSeconds : 0), goalMinutes: userGoalMinutes } : null;
+  const jointGoal = goals.joint ? { seconds: jointTodayTime, goalMinutes: goals.joint } : null;
 
   return (
     <div className="w-full h-screen md:h-auto md:min-h-screen bg-[#61bfff]">
-      <ConnectionStatusBanner isVisible={showConnectionBanner} />
-      <audio ref={musicRef} src={AUDIO.BACKGROUND_MUSIC} loop />
+      <ConnectionStatusBanner isVisible={showConnectionBanner} pendingChanges={pendingEntries.length} />
+      {SOUND_LAYERS.map(layer => (
+        <audio key={layer.id} ref={(el) => { soundLayerRefs.current[layer.id] = el; }} src={layer.src} preload="none" loop />
+      ))}
       <audio ref={silentAudioRef} src="data:audio/wav;base64,UklGRiQAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABAAZGF0YQAAAAA=" loop />
 
       {showOnlineNotification && <OnlinePresenceNotification 
@@ -1635,18 +3417,32 @@ const App: React.FC = () => {
       />}
       {showOfflineNotification && <OfflinePresenceNotification partnerName={partnerDisplayName} />}
       {showJoinNotification && <JoinNotification partnerName={partnerDisplayName} />}
-      {receivedReward && <RewardNotification 
-            reward={receivedReward} 
-            onDismiss={() => setReceivedReward(null)} 
-            onAcknowledge={handleAcknowledgeReward}
-            onRespond={handleRespondToReward} />}
-      {receivedMessage && <MessageNotification 
-            message={receivedMessage}
-            onDismiss={() => setReceivedMessage(null)}
-            onReact={handleReactToMessage}
-            onRespond={handleRespondToMessage}
+      {syncNotice && <SyncNotice message={syncNotice} />}
+      {currentArrival && <MessageNotification
+            key={currentArrival.id}
+            roomId={room.roomId}
+            message={currentArrival.message}
+            actions={{ joinSession: handleJoinFromInvite, respondToStudyDate: handleRespondToStudyDateInvite }}
+            onDismiss={dismissArrival}
+            onReply={handleReplyToArrival}
+            senderName={displayNames[currentArrival.message.from]}
+      />}
+      {showStudyDateModal && <StudyDateModal proposedBy={userCharacter} onPropose={handleProposeStudyDate} onClose={() => setShowStudyDateModal(false)} />}
+      {dueStudyDate && userFocus === FocusState.Idle && !postponedDateIds.includes(dueStudyDate.id) && !showRewardModal && <StudyDatePrompt
+            date={dueStudyDate}
+            isPartnerInSession={isInSession(partnerFocus)}
+            onStart={handleStartStudyDate}
+            onLater={() => setPostponedDateIds(prev => [...prev, dueStudyDate.id])}
+      />}
+      {showRewardModal && <RewardModal
+            roomId={room.roomId}
+            from={userCharacter}
+            completedTasks={lastCompletedTasks}
+            partnerDoneTasks={partnerTasks.filter(task => task.done)}
+            onPraiseTask={(task) => sendMessage(partnerCharacter, { type: 'praise', text: `So proud of you for "${task.text}"!` })}
+            onSend={handleSendRewardFromModal}
+            onSkip={() => setShowRewardModal(false)}
       />}
-      {showRewardModal && <RewardModal from={userCharacter} onSend={handleSendRewardFromModal} onSkip={() => setShowRewardModal(false)} />}
 
       <MainDisplay
         user={userCharacter}
@@ -1666,17 +3462,119 @@ const App: React.FC = () => {
         isPartnerInSession={isPartnerInSession}
         isFullscreen={isFullscreen}
         onToggleFullscreen={toggleFullscreen}
+        userPhase={userPhase}
+        partnerPhase={partnerPhase}
+        isIntervalMode={isIntervalMode}
+        intervalSettings={intervalSettings}
+        onToggleIntervalMode={handleToggleIntervalMode}
+        onIntervalSettingsChange={handleIntervalSettingsChange}
+        userGoal={userGoal}
+        jointGoal={jointGoal}
+        onOpenSettings={() => setShowSettings(true)}
+        onOpenMixer={() => setShowMixer(true)}
+        unreadCount={unreadInbox.length}
+        onOpenInbox={handleOpenInbox}
+        isPartnerOnline={isPartnerOnline}
+        onNudge={handleNudge}
+        onInvite={handleInvite}
+        studyDates={studyDates}
+        onPlanStudyDate={() => setShowStudyDateModal(true)}
+        onRespondToStudyDate={handleRespondToStudyDate}
+        onCancelStudyDate={(dateId) => setStudyDateStatus(dateId, 'cancelled')}
+        subjects={subjects}
+        selectedSubjectId={selectedSubject?.id ?? null}
+        onSelectSubject={setSelectedSubjectId}
+        userSubject={findSubject(subjects, userSession.subjectId)}
+        partnerSubject={findSubject(subjects, partnerSubjectId)}
+        tasks={tasks}
+        partnerTasks={partnerTasks}
+        onAddTask={handleAddTask}
+        onToggleTask={handleToggleTask}
+        onRemoveTask={handleRemoveTask}
+        userAwayMs={userSession.awayMs}
+        partnerAwayMs={partnerAwayMs}
+        scenePack={scenePack}
+        partnerDisplayName={partnerDisplayName}
+        otherDeviceOnline={ownsSession ? null : !!(userSession.ownerDeviceId && userStatus?.onlineDeviceIds.includes(userSession.ownerDeviceId))}
+        onContinueHere={handleContinueHere}
       />
       
       <PowerCoupleStats 
         user={userCharacter}
         partner={partnerCharacter}
+        profiles={profiles}
         userStats={{ today: userTodayTime, yesterday: userYesterdayTime }}
         partnerStats={{ today: partnerTodayTime, yesterday: partnerYesterdayTime }}
         jointTime={{ today: jointTodayTime, yesterday: jointYesterdayTime }}
+        goals={goals}
+        streaks={streaks}
+        onGoalChange={handleGoalChange}
         isOpen={showStats}
         onToggle={handleToggleStats}
+        onOpenHistory={handleOpenHistory}
+        onOpenDashboard={handleOpenDashboard}
       />
+      {showMixer && <SoundMixerPanel
+            soundscape={soundscape}
+            activePreset={activeSoundPreset}
+            isMuted={isMuted}
+            onChange={handleMixChange}
+            onClose={() => setShowMixer(false)}
+      />}
+      {showSettings && <SettingsPanel
+            settings={roomSettings}
+            onDayBoundaryChange={handleDayBoundaryChange}
+            resumeGraceMinutes={resumeGraceMinutes}
+            onResumeGraceChange={handleResumeGraceChange}
+            notificationSettings={notificationSettings}
+            onNotificationSettingsChange={handleNotificationSettingsChange}
+            notificationPermission={notificationPermission}
+            onRequestNotificationPermission={handleRequestNotificationPermission}
+            subjects={subjects}
+            onAddSubject={handleAddSubject}
+            onRemoveSubject={handleRemoveSubject}
+            distractionSettings={distractionSettings}
+            onDistractionSettingsChange={handleDistractionSettingsChange}
+            scenePackId={scenePack.id}
+            onScenePackChange={handleScenePackChange}
+            profile={profiles[userCharacter]}
+            onProfileSave={handleProfileSave}
+            linkedEmail={linkedEmail}
+            onLinkEmail={handleLinkEmail}
+            onClose={() => setShowSettings(false)}
+      />}
+      {showDashboard && dashboardRange && <StatsDashboard
+            user={userCharacter}
+            partner={partnerCharacter}
+            today={today}
+            range={dashboardRange}
+            stats={dashboardStats}
+            subjects={subjects}
+            names={displayNames}
+            onRangeChange={setDashboardRange}
+            onClose={() => setShowDashboard(false)}
+      />}
+      {showHistory && historyOwner && <HistoryPanel
+            user={userCharacter}
+            partner={partnerCharacter}
+            owner={historyOwner}
+            records={historyRecords}
+            subjects={subjects}
+            canLoadMore={historyRecords.length >= historyLimit}
+            names={displayNames}
+            onOwnerChange={handleHistoryOwnerChange}
+            onLoadMore={() => setHistoryLimit(prev => prev + HISTORY_PAGE_SIZE)}
+            onClose={() => setShowHistory(false)}
+      />}
+      {showInbox && <InboxPanel
+            roomId={room.roomId}
+            items={inboxItems}
+            newItemIds={inboxNewIds}
+            canLoadMore={inboxItems.length >= inboxLimit}
+            names={displayNames}
+            onLoadMore={() => setInboxLimit(prev => prev + INBOX_PAGE_SIZE)}
+            onClose={() => setShowInbox(false)}
+      />}
     </div>
   );
 };
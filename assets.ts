@@ -10,4 +10,7 @@ export const IMAGE_ASSETS = {
 
 export const AUDIO_ASSETS = {
   BACKGROUND_MUSIC: 'https://raw.githubusercontent.com/azurepure630-sudo/politosfocus/main/small%20size%20politoappmusic.mp3',
+  RAIN: '/sounds/rain.wav',
+  FIREPLACE: '/sounds/fireplace.wav',
+  CAFE: '/sounds/cafe.wav',
 };
@@ -0,0 +1,22 @@
+// backend.ts
+import { isFirebaseAvailable } from './firebase';
+import { BlobStore } from './blobs';
+import { createFirebaseBackend, createFirebaseBlobStore } from './firebaseSync';
+import { createLocalBackend, createLocalBlobStore } from './localSync';
+import { withSchemaValidation } from './schema';
+import { SyncBackend } from './sync';
+
+// Open the app with ?backend=local to run without a network. Two tabs on the
+// same machine then share one local database and can play the two partners.
+const requestedBackend = new URLSearchParams(window.location.search).get('backend');
+
+const useLocalBackend = requestedBackend === 'local' || !isFirebaseAvailable;
+
+// Writes are checked against the schema in schema.ts before they reach either backend.
+export const backend: SyncBackend = withSchemaValidation(useLocalBackend ? createLocalBackend() : createFirebaseBackend());
+
+export const blobStore: BlobStore = useLocalBackend ? createLocalBlobStore() : createFirebaseBlobStore();
+
+// What a device keeps for itself, such as its id and its session journal. Tabs on the local
+// backend each play a device of their own, so they keep it per tab instead of sharing it.
+export const deviceStorage: Storage | null = useLocalBackend ? sessionStorage : localStorage;
@@ -0,0 +1,79 @@
+// blobs.ts
+import { VoiceNoteRef } from './types';
+
+export type ProgressHandler = (fraction: number) => void;
+
+/**
+ * Binary attachments such as voice notes live here rather than inside the
+ * messages that mention them. Messages only carry the id `upload` returns.
+ */
+export interface BlobStore {
+    readonly name: 'firebase' | 'local';
+    upload(roomId: string, blob: Blob, onProgress?: ProgressHandler): Promise<string>;
+    download(roomId: string, blobId: string): Promise<Blob>;
+}
+
+// Stored blobs are split into pieces of this many bytes, each written on its own.
+export const BLOB_CHUNK_BYTES = 256 * 1024;
+export const MAX_VOICE_NOTE_BYTES = 2 * 1024 * 1024;
+
+export type BlobMeta = {
+    mimeType: string;
+    size: number;
+    chunkCount: number;
+};
+
+// The realtime database only holds strings, so chunks travel as base64.
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+export const splitIntoChunks = async (blob: Blob): Promise<string[]> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const chunks: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += BLOB_CHUNK_BYTES) {
+        chunks.push(bytesToBase64(bytes.subarray(offset, offset + BLOB_CHUNK_BYTES)));
+    }
+    return chunks;
+};
+
+export const joinChunks = (chunks: string[], mimeType: string): Blob =>
+    new Blob(chunks.map(chunk => base64ToBytes(chunk)), { type: mimeType });
+
+export type VoiceRecording = {
+    blob: Blob;
+    durationSeconds: number;
+};
+
+export const uploadVoiceNote = async (store: BlobStore, roomId: string, recording: VoiceRecording, onProgress?: ProgressHandler): Promise<VoiceNoteRef> => {
+    const { blob, durationSeconds } = recording;
+    if (blob.size > MAX_VOICE_NOTE_BYTES) {
+        throw new Error(`Voice notes can be at most ${Math.round(MAX_VOICE_NOTE_BYTES / (1024 * 1024))} MB. Please record a shorter one.`);
+    }
+    const blobId = await store.upload(roomId, blob, onProgress);
+    return { blobId, durationSeconds, mimeType: blob.type || 'audio/webm', size: blob.size };
+};
+
+// Downloads are shared and kept for the page's lifetime, so replaying a note costs nothing.
+const downloads = new Map<string, Promise<Blob>>();
+
+export const loadVoiceNote = (store: BlobStore, roomId: string, note: VoiceNoteRef): Promise<Blob> => {
+    const key = `${roomId}/${note.blobId}`;
+    if (!downloads.has(key)) {
+        const download = store.download(roomId, note.blobId);
+        download.catch(() => downloads.delete(key));
+        downloads.set(key, download);
+    }
+    return downloads.get(key)!;
+};
@@ -0,0 +1,110 @@
+// clock.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { createClock } from './clock';
+import { computeSessionTotals, getElapsedSeconds, pauseSession, resumeSession, startSession } from './session';
+
+// The server clock subscribes to the backend on import; the tests drive their own clocks.
+vi.mock('./backend', () => ({ backend: { onServerTimeOffset: vi.fn() } }));
+
+const MINUTE_MS = 60 * 1000;
+const SERVER_START = Date.parse('2024-06-01T10:00:00Z');
+
+// A device clock that is `skewMs` off the server, with time advanced by hand.
+const createSkewedDevice = (skewMs: number) => {
+    let serverTime = SERVER_START;
+    let skew = skewMs;
+    return {
+        readDeviceTime: () => serverTime + skew,
+        advance: (ms: number) => { serverTime += ms; },
+        setSkew: (next: number) => { skew = next; },
+    };
+};
+
+describe('createClock', () => {
+    it('reads the device time until an offset is known', () => {
+        const device = createSkewedDevice(0);
+        const clock = createClock(device.readDeviceTime);
+        expect(clock.getOffset()).toBe(0);
+        expect(clock.now()).toBe(SERVER_START);
+    });
+
+    it.each([
+        ['behind the server', -5 * MINUTE_MS],
+        ['ahead of the server', 7 * MINUTE_MS],
+    ])('corrects a device clock %s', (_, skewMs) => {
+        const device = createSkewedDevice(skewMs);
+        const clock = createClock(device.readDeviceTime);
+        clock.setOffset(-skewMs);
+        expect(clock.now()).toBe(SERVER_START);
+        device.advance(90 * 1000);
+        expect(clock.now()).toBe(SERVER_START + 90 * 1000);
+    });
+});
+
+describe('session durations under clock skew', () => {
+    it.each([
+        ['positive', 5 * MINUTE_MS],
+        ['negative', -5 * MINUTE_MS],
+    ])('counts focus time correctly with a %s offset', (_, offset) => {
+        // The session start is a server timestamp; the device is off by the opposite of the offset.
+        const device = createSkewedDevice(-offset);
+        const clock = createClock(device.readDeviceTime);
+        clock.setOffset(offset);
+        const session = startSession(null, SERVER_START);
+
+        device.advance(25 * MINUTE_MS);
+        expect(getElapsedSeconds(session, clock.now())).toBe(25 * 60);
+        // Measured against the raw device clock the same session is off by the skew.
+        expect(getElapsedSeconds(session, device.readDeviceTime())).toBe(Math.max(0, 25 * 60 - offset / 1000));
+    });
+
+    it('keeps pauses and totals right with a skewed clock', () => {
+        const device = createSkewedDevice(-3 * MINUTE_MS);
+        const clock = createClock(device.readDeviceTime);
+        clock.setOffset(3 * MINUTE_MS);
+
+        let session = startSession(null, clock.now());
+        device.advance(10 * MINUTE_MS);
+        session = pauseSession(session, clock.now());
+        device.advance(5 * MINUTE_MS);
+        session = resumeSession(session, clock.now());
+        device.advance(20 * MINUTE_MS);
+
+        const totals = computeSessionTotals(session, null, clock.now());
+        expect(totals.focusSeconds).toBe(30 * 60);
+        expect(totals.pauses).toEqual([{ start: SERVER_START + 10 * MINUTE_MS, end: SERVER_START + 15 * MINUTE_MS }]);
+    });
+
+    it('stays right when the offset changes in the middle of a session', () => {
+        // The first estimate is wrong; the server corrects it a few minutes in.
+        const device = createSkewedDevice(-4 * MINUTE_MS);
+        const clock = createClock(device.readDeviceTime);
+        const session = startSession(null, SERVER_START);
+
+        device.advance(10 * MINUTE_MS);
+        expect(getElapsedSeconds(session, clock.now())).toBe(6 * 60);
+
+        clock.setOffset(4 * MINUTE_MS);
+        expect(getElapsedSeconds(session, clock.now())).toBe(10 * 60);
+
+        // The device clock is then set by hand and the server reports the new offset.
+        device.setSkew(2 * MINUTE_MS);
+        clock.setOffset(-2 * MINUTE_MS);
+        device.advance(5 * MINUTE_MS);
+        expect(getElapsedSeconds(session, clock.now())).toBe(15 * 60);
+    });
+
+    it('counts joint time from the later start, whatever each device clock says', () => {
+        const userDevice = createSkewedDevice(2 * MINUTE_MS);
+        const userClock = createClock(userDevice.readDeviceTime);
+        userClock.setOffset(-2 * MINUTE_MS);
+
+        const user = startSession(null, SERVER_START);
+        const partner = startSession(null, SERVER_START + 10 * MINUTE_MS);
+        userDevice.advance(30 * MINUTE_MS);
+
+        const totals = computeSessionTotals(user, partner, userClock.now());
+        expect(totals.focusSeconds).toBe(30 * 60);
+        expect(totals.jointSeconds).toBe(20 * 60);
+    });
+});
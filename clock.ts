@@ -0,0 +1,27 @@
+// clock.ts
+import { backend } from './backend';
+
+export type Clock = {
+    now: () => number;
+    getOffset: () => number;
+    setOffset: (offset: number) => void;
+};
+
+/**
+ * A clock that reads the device time and corrects it by an offset. Sessions
+ * are stamped on the device, so the starts, pauses and ends both partners
+ * write only line up when every device corrects its clock by the offset the
+ * server reports; durations are measured on the same corrected time.
+ */
+export const createClock = (readDeviceTime: () => number = Date.now): Clock => {
+    let offset = 0;
+    return {
+        now: () => readDeviceTime() + offset,
+        getOffset: () => offset,
+        setOffset: (next: number) => { offset = next; },
+    };
+};
+
+export const serverClock = createClock();
+
+backend.onServerTimeOffset(serverClock.setOffset);
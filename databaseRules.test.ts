@@ -0,0 +1,375 @@
+// databaseRules.test.ts
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Tree, getAt, setAt, splitPath } from './localSync';
+import { createMessage } from './messages';
+import { pauseSession, startSession } from './session';
+import { Character } from './types';
+
+/*
+ * database.rules.json evaluated in memory, since the database emulator is not
+ * available everywhere the tests run. It follows the rules language closely
+ * enough for these rules: .read and .write cascade down from the first rule
+ * that grants them, .validate runs on every node the write leaves in place,
+ * named children win over $wildcards, and an expression that errors denies.
+ */
+
+const RULES = JSON.parse(readFileSync(new URL('./database.rules.json', import.meta.url), 'utf8')).rules;
+
+type RuleNode = { [key: string]: any };
+type Variables = { [name: string]: string };
+
+// The rule for a child key and the $variable it binds, if any.
+const childRule = (node: RuleNode | undefined, key: string): [RuleNode | undefined, Variables] => {
+    if (!node) return [undefined, {}];
+    if (node[key]) return [node[key], {}];
+    const wildcard = Object.keys(node).find(name => name.startsWith('$'));
+    return wildcard ? [node[wildcard], { [wildcard]: key }] : [undefined, {}];
+};
+
+// The rule at each depth of a path, from the root down.
+const rulesAlong = (keys: string[]) => {
+    const steps: { node: RuleNode | undefined; variables: Variables }[] = [{ node: RULES, variables: {} }];
+    keys.forEach(key => {
+        const previous = steps[steps.length - 1];
+        const [node, bound] = childRule(previous.node, key);
+        steps.push({ node, variables: { ...previous.variables, ...bound } });
+    });
+    return steps;
+};
+
+const createSnapshot = (tree: Tree, keys: string[]): any => {
+    const value = getAt(tree, keys.join('/'));
+    const child = (path: string) => {
+        if (typeof path !== 'string') throw new TypeError('child() needs a path');
+        return createSnapshot(tree, [...keys, ...splitPath(path)]);
+    };
+    return {
+        val: () => value,
+        exists: () => value !== null,
+        child,
+        parent: () => createSnapshot(tree, keys.slice(0, -1)),
+        hasChild: (path: string) => child(path).exists(),
+        hasChildren: (names?: string[]) => value !== null && typeof value === 'object' &&
+            (names ? names.every(name => child(name).exists()) : Object.keys(value).length > 0),
+        isString: () => typeof value === 'string',
+        isNumber: () => typeof value === 'number',
+        isBoolean: () => typeof value === 'boolean',
+    };
+};
+
+const evaluate = (expression: string | boolean, context: { [name: string]: any }) => {
+    if (typeof expression === 'boolean') return expression;
+    const names = Object.keys(context);
+    try {
+        const run = new Function(...names, `return (${expression.replace(/\.matches\(/g, '.match(')});`);
+        return !!run(...names.map(name => context[name]));
+    } catch {
+        return false;
+    }
+};
+
+// Drops nulls and empty objects, and stores arrays as objects keyed by index, as the database does.
+const normalize = (value: any): any => {
+    if (value === null || value === undefined || typeof value !== 'object') return value ?? null;
+    const entries = Object.entries(value).map(([key, child]) => [key, normalize(child)]).filter(([, child]) => child !== null);
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+};
+
+const createRulesHarness = (initial: Tree) => {
+    let tree: Tree = JSON.parse(JSON.stringify(initial));
+
+    const contextAt = (before: Tree, after: Tree, keys: string[], depth: number, variables: Variables, auth: any) => ({
+        root: createSnapshot(before, []),
+        data: createSnapshot(before, keys.slice(0, depth)),
+        newData: createSnapshot(after, keys.slice(0, depth)),
+        auth,
+        now: Date.now(),
+        ...variables,
+    });
+
+    const canWrite = (before: Tree, after: Tree, keys: string[], auth: any) =>
+        rulesAlong(keys).some(({ node, variables }, depth) =>
+            node?.['.write'] !== undefined && evaluate(node['.write'], contextAt(before, after, keys, depth, variables, auth)));
+
+    const isValidBelow = (before: Tree, after: Tree, keys: string[], node: RuleNode | undefined, variables: Variables, auth: any): boolean => {
+        const value = getAt(after, keys.join('/'));
+        if (!node || value === null) return true;
+        if (node['.validate'] !== undefined && !evaluate(node['.validate'], contextAt(before, after, keys, keys.length, variables, auth))) return false;
+        if (typeof value !== 'object') return true;
+        return Object.keys(value).every(key => {
+            const [child, bound] = childRule(node, key);
+            return isValidBelow(before, after, [...keys, key], child, { ...variables, ...bound }, auth);
+        });
+    };
+
+    const isValid = (before: Tree, after: Tree, keys: string[], auth: any) => {
+        const steps = rulesAlong(keys);
+        const ancestorsValid = steps.slice(0, -1).every(({ node, variables }, depth) =>
+            node?.['.validate'] === undefined || getAt(after, keys.slice(0, depth).join('/')) === null ||
+            evaluate(node['.validate'], contextAt(before, after, keys, depth, variables, auth)));
+        const { node, variables } = steps[steps.length - 1];
+        return ancestorsValid && isValidBelow(before, after, keys, node, variables, auth);
+    };
+
+    // A multi-path update goes through only if every path may be written and the result is valid.
+    const write = (auth: any, updates: { [path: string]: any }) => {
+        const next = JSON.parse(JSON.stringify(tree));
+        Object.entries(updates).forEach(([path, value]) => setAt(next, path, normalize(value)));
+        const allowed = Object.keys(updates).every(path =>
+            canWrite(tree, next, splitPath(path), auth) && isValid(tree, next, splitPath(path), auth));
+        if (allowed) tree = next;
+        return allowed;
+    };
+
+    return {
+        get: (path: string) => getAt(tree, path),
+        as: (uid: string | null) => {
+            const auth = uid ? { uid } : null;
+            return {
+                read: (path: string) => rulesAlong(splitPath(path)).some(({ node, variables }, depth) =>
+                    node?.['.read'] !== undefined && evaluate(node['.read'], contextAt(tree, tree, splitPath(path), depth, variables, auth))),
+                set: (path: string, value: any) => write(auth, { [path]: value }),
+                update: (path: string, values: { [key: string]: any }) =>
+                    write(auth, Object.fromEntries(Object.entries(values).map(([key, value]) => [`${path}/${key}`, value]))),
+            };
+        },
+    };
+};
+
+const CODE = 'ABC234';
+const ROOM = 'rooms/room1';
+const START = Date.parse('2024-06-01T10:00:00Z');
+
+// Flynn and Rapunzel share a room; Flynn has a device connected, Rapunzel does not.
+const seedRoom = (): Tree => ({
+    pairingCodes: { [CODE]: 'room1' },
+    rooms: {
+        room1: {
+            meta: { pairingCode: CODE, createdAt: START },
+            members: { flynn: CODE, rapunzel: CODE },
+            claims: {
+                Flynn: { uid: 'flynn', claimedAt: START },
+                Rapunzel: { uid: 'rapunzel', claimedAt: START },
+            },
+            presence: { Flynn: { c1: { deviceId: 'flynn-phone', connectedAt: START } } },
+        },
+    },
+});
+
+const record = (overrides: object = {}) => ({
+    character: Character.Flynn,
+    partner: null,
+    date: '2024-06-01',
+    startTime: START,
+    endTime: START + 25 * 60 * 1000,
+    pauses: [],
+    focusSeconds: 25 * 60,
+    jointSeconds: 0,
+    subjectId: null,
+    awayCount: null,
+    awaySeconds: null,
+    completedTasks: [{ id: 't1', text: 'Read chapter 3' }],
+    ...overrides,
+});
+
+let db: ReturnType<typeof createRulesHarness>;
+
+beforeEach(() => {
+    db = createRulesHarness(seedRoom());
+});
+
+describe('room membership', () => {
+    it('lets only members read a room', () => {
+        expect(db.as('flynn').read(ROOM)).toBe(true);
+        expect(db.as('flynn').read(`${ROOM}/users/Rapunzel`)).toBe(true);
+        expect(db.as('mallory').read(ROOM)).toBe(false);
+        expect(db.as('mallory').read(`${ROOM}/inbox/Flynn`)).toBe(false);
+        expect(db.as(null).read(ROOM)).toBe(false);
+    });
+
+    it('takes the pairing code to become a member', () => {
+        expect(db.as('newphone').set(`${ROOM}/members/newphone`, 'ZZZ999')).toBe(false);
+        expect(db.as('newphone').set(`${ROOM}/members/newphone`, true)).toBe(false);
+        expect(db.as('newphone').set(`${ROOM}/members/newphone`, CODE)).toBe(true);
+        expect(db.as('newphone').read(ROOM)).toBe(true);
+    });
+
+    it('lets nobody add someone else', () => {
+        expect(db.as('flynn').set(`${ROOM}/members/mallory`, CODE)).toBe(false);
+        expect(db.as(null).set(`${ROOM}/members/mallory`, CODE)).toBe(false);
+    });
+
+    it('creates a room only for the code that points at it', () => {
+        expect(db.as('ana').set('pairingCodes/XYZ789', 'room2')).toBe(true);
+        expect(db.as('ana').update('rooms/room2', {
+            meta: { pairingCode: 'XYZ789', createdAt: START },
+            'members/ana': 'XYZ789',
+        })).toBe(true);
+        expect(db.as('ana').read('rooms/room2')).toBe(true);
+
+        expect(db.as('mallory').set('pairingCodes/XYZ789', 'room3')).toBe(false);
+        expect(db.as('mallory').update('rooms/room3', {
+            meta: { pairingCode: CODE, createdAt: START },
+            'members/mallory': CODE,
+        })).toBe(false);
+        expect(db.as('mallory').set(`${ROOM}/meta`, { pairingCode: 'XYZ789', createdAt: START })).toBe(false);
+    });
+});
+
+describe('character claims', () => {
+    const claim = (uid: string) => ({ uid, claimedAt: START + 1000 });
+
+    beforeEach(() => {
+        db.as('newphone').set(`${ROOM}/members/newphone`, CODE);
+    });
+
+    it('are refused to anyone outside the room', () => {
+        db = createRulesHarness({ ...seedRoom(), rooms: { room1: { ...seedRoom().rooms.room1, claims: {} } } });
+        expect(db.as('mallory').set(`${ROOM}/claims/Flynn`, claim('mallory'))).toBe(false);
+        expect(db.as('flynn').set(`${ROOM}/claims/Flynn`, claim('flynn'))).toBe(true);
+    });
+
+    it('cannot be made for someone else', () => {
+        expect(db.as('newphone').set(`${ROOM}/claims/Rapunzel`, claim('mallory'))).toBe(false);
+    });
+
+    it('move only while none of the holder\'s devices is connected', () => {
+        expect(db.as('newphone').set(`${ROOM}/claims/Flynn`, claim('newphone'))).toBe(false);
+        expect(db.as('newphone').set(`${ROOM}/claims/Rapunzel`, claim('newphone'))).toBe(true);
+        expect(db.get(`${ROOM}/claims/Rapunzel/uid`)).toBe('newphone');
+
+        expect(db.as('flynn').set(`${ROOM}/presence/Flynn/c1`, null)).toBe(true);
+        expect(db.as('tablet').set(`${ROOM}/members/tablet`, CODE)).toBe(true);
+        expect(db.as('tablet').set(`${ROOM}/claims/Flynn`, claim('tablet'))).toBe(true);
+    });
+
+    it('cannot be moved by the partner clearing the holder\'s presence', () => {
+        expect(db.as('rapunzel').set(`${ROOM}/presence/Flynn/c1`, null)).toBe(false);
+        expect(db.get(`${ROOM}/presence/Flynn/c1`)).not.toBeNull();
+        expect(db.as('rapunzel').set(`${ROOM}/claims/Flynn`, claim('rapunzel'))).toBe(false);
+    });
+
+    it('leave one identity with at most one character', () => {
+        expect(db.as('flynn').set(`${ROOM}/presence/Flynn/c1`, null)).toBe(true);
+        expect(db.as('rapunzel').set(`${ROOM}/claims/Flynn`, claim('rapunzel'))).toBe(false);
+        expect(db.as('flynn').set(`${ROOM}/claims/Rapunzel`, claim('flynn'))).toBe(false);
+        expect(db.get(`${ROOM}/claims/Flynn/uid`)).toBe('flynn');
+    });
+
+    it('can always be renewed by their holder', () => {
+        expect(db.as('flynn').set(`${ROOM}/claims/Flynn`, claim('flynn'))).toBe(true);
+    });
+
+    it('only name the two characters', () => {
+        expect(db.as('newphone').set(`${ROOM}/claims/Eugene`, claim('newphone'))).toBe(false);
+    });
+});
+
+describe('writes for another character', () => {
+    it('are rejected on the session, tasks, profile and sessions', () => {
+        const session = startSession(null, START, null, false, 'rapunzel-phone');
+        expect(db.as('rapunzel').update(`${ROOM}/users/Flynn`, session)).toBe(false);
+        expect(db.as('rapunzel').set(`${ROOM}/tasks/Flynn/t1`, { text: 'Nap', done: false, createdAt: START })).toBe(false);
+        expect(db.as('rapunzel').set(`${ROOM}/profiles/Flynn`, { displayName: 'Eugene', emoji: '', avatar: 'flynn', status: '' })).toBe(false);
+        expect(db.as('rapunzel').set(`${ROOM}/sessions/Flynn/r1`, record())).toBe(false);
+        expect(db.as('mallory').update(`${ROOM}/users/Flynn`, session)).toBe(false);
+
+        expect(db.as('flynn').update(`${ROOM}/users/Flynn`, session)).toBe(true);
+    });
+
+    it('are rejected on their daily totals, but not on the joint ones', () => {
+        expect(db.as('rapunzel').set(`${ROOM}/dailyStats/2024-06-01/Flynn/totalFocusTime`, 60)).toBe(false);
+        expect(db.as('rapunzel').set(`${ROOM}/dailyStats/2024-06-01/joint/totalFocusTime`, 60)).toBe(true);
+        expect(db.as('mallory').set(`${ROOM}/dailyStats/2024-06-01/joint/totalFocusTime`, 120)).toBe(false);
+    });
+
+    it('are rejected on the inbox, apart from sending in one\'s own name', () => {
+        const item = (from: Character) => ({ message: createMessage(from, { type: 'text', text: 'Hi' }), sentAt: START, read: false });
+        expect(db.as('rapunzel').set(`${ROOM}/inbox/Rapunzel/m1`, item(Character.Flynn))).toBe(false);
+        expect(db.as('rapunzel').set(`${ROOM}/inbox/Flynn/m1`, item(Character.Rapunzel))).toBe(true);
+
+        expect(db.as('rapunzel').set(`${ROOM}/inbox/Flynn/m1/read`, true)).toBe(false);
+        expect(db.as('flynn').set(`${ROOM}/inbox/Flynn/m1/read`, true)).toBe(true);
+        expect(db.as('flynn').set(`${ROOM}/inbox/Flynn/m1/message/text`, 'Bye')).toBe(false);
+    });
+});
+
+describe('invalid writes', () => {
+    const flynn = () => db.as('flynn');
+
+    it('reject a session state the app could not have written', () => {
+        const session = startSession(null, START, null, false, 'flynn-phone');
+        expect(flynn().update(`${ROOM}/users/Flynn`, { ...session, focusState: 'SLEEPING' })).toBe(false);
+        expect(flynn().update(`${ROOM}/users/Flynn`, { ...session, focusStartTime: -1 })).toBe(false);
+        expect(flynn().update(`${ROOM}/users/Flynn`, { ...session, ownerDeviceId: 'x'.repeat(65) })).toBe(false);
+        expect(flynn().update(`${ROOM}/users/Flynn`, { ...session, isAdmin: true })).toBe(false);
+        expect(flynn().update(`${ROOM}/users/Flynn`, {
+            ...session, pauseIntervals: [{ start: START + 2000, end: START + 1000 }],
+        })).toBe(false);
+
+        expect(flynn().update(`${ROOM}/users/Flynn`, pauseSession(session, START + 60 * 1000))).toBe(true);
+    });
+
+    it('reject a session record that does not add up, or rewrites an old one', () => {
+        expect(flynn().set(`${ROOM}/sessions/Flynn/r1`, record({ endTime: START - 1 }))).toBe(false);
+        expect(flynn().set(`${ROOM}/sessions/Flynn/r1`, record({ character: Character.Rapunzel }))).toBe(false);
+        expect(flynn().set(`${ROOM}/sessions/Flynn/r1`, record({ focusSeconds: 172801 }))).toBe(false);
+        expect(flynn().set(`${ROOM}/sessions/Flynn/r1`, record({ completedTasks: [{ id: 't1', text: 'x'.repeat(121) }] }))).toBe(false);
+
+        expect(flynn().set(`${ROOM}/sessions/Flynn/r1`, record())).toBe(true);
+        expect(flynn().set(`${ROOM}/sessions/Flynn/r1`, record({ focusSeconds: 60 * 60 }))).toBe(false);
+    });
+
+    it('keep daily totals from shrinking or running past two days', () => {
+        const total = `${ROOM}/dailyStats/2024-06-01/Flynn/totalFocusTime`;
+        expect(flynn().set(total, 600)).toBe(true);
+        expect(flynn().set(total, 300)).toBe(false);
+        expect(flynn().set(total, 172801)).toBe(false);
+        expect(flynn().set(`${ROOM}/dailyStats/June/Flynn/totalFocusTime`, 600)).toBe(false);
+    });
+
+    it('book a whole session in one update, or none of it', () => {
+        const updates = {
+            'sessions/Flynn/r1': record(),
+            'dailyStats/2024-06-01/Flynn/totalFocusTime': 25 * 60,
+            'users/Flynn/focusState': 'IDLE',
+        };
+        expect(flynn().update(ROOM, { ...updates, 'users/Flynn/focusState': 'DONE' })).toBe(false);
+        expect(db.get(`${ROOM}/sessions/Flynn/r1`)).toBeNull();
+        expect(flynn().update(ROOM, updates)).toBe(true);
+    });
+
+    it('keep voice notes within their size limits', () => {
+        const meta = { mimeType: 'audio/webm', size: 1000, chunkCount: 1, createdAt: START };
+        expect(flynn().set(`${ROOM}/blobs/b1/meta`, { ...meta, size: 2097153 })).toBe(false);
+        expect(flynn().set(`${ROOM}/blobs/b1/meta`, { ...meta, chunkCount: 9 })).toBe(false);
+        expect(flynn().set(`${ROOM}/blobs/b1/chunks/8`, 'AAAA')).toBe(false);
+        expect(flynn().set(`${ROOM}/blobs/b1/chunks/0`, 'A'.repeat(349529))).toBe(false);
+        expect(db.as('mallory').set(`${ROOM}/blobs/b1/chunks/0`, 'AAAA')).toBe(false);
+
+        expect(flynn().set(`${ROOM}/blobs/b1/meta`, meta)).toBe(true);
+        expect(flynn().set(`${ROOM}/blobs/b1/chunks/0`, 'AAAA')).toBe(true);
+        expect(flynn().set(`${ROOM}/blobs/b1/chunks/0`, 'BBBB')).toBe(false);
+    });
+
+    it('reject profiles, goals and settings out of range', () => {
+        const profile = { displayName: 'Eugene', emoji: '🗡️', avatar: 'flynn', status: '' };
+        expect(flynn().set(`${ROOM}/profiles/Flynn`, { ...profile, displayName: 'x'.repeat(25) })).toBe(false);
+        expect(flynn().set(`${ROOM}/profiles/Flynn`, { ...profile, avatar: 'pascal' })).toBe(false);
+        expect(flynn().set(`${ROOM}/profiles/Flynn`, profile)).toBe(true);
+
+        expect(flynn().set(`${ROOM}/goals/joint`, 0)).toBe(false);
+        expect(flynn().set(`${ROOM}/goals/joint`, 1441)).toBe(false);
+        expect(flynn().set(`${ROOM}/goals/joint`, 120)).toBe(true);
+
+        expect(flynn().set(`${ROOM}/settings/dayBoundary`, { timeZone: 'UTC', rolloverHour: 24 })).toBe(false);
+        expect(flynn().set(`${ROOM}/settings/theme`, 'dark')).toBe(false);
+        expect(flynn().set(`${ROOM}/settings/dayBoundary`, { timeZone: 'Europe/Berlin', rolloverHour: 4 })).toBe(true);
+    });
+
+    it('reject nodes the app never writes', () => {
+        expect(flynn().set(`${ROOM}/admins/flynn`, true)).toBe(false);
+        expect(flynn().set(`${ROOM}/meta/owner`, 'flynn')).toBe(false);
+    });
+});
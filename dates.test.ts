@@ -0,0 +1,99 @@
+// dates.test.ts
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DAY_BOUNDARY, addDays, getCycleDateString, listDates } from './dates';
+
+const at = (iso: string) => Date.parse(iso);
+
+// The boundary before rollover hours and timezones could be set.
+const legacyCycleDate = (timestamp: number) => new Date(timestamp - 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe('getCycleDateString', () => {
+    it('matches the old 1 AM UTC boundary by default', () => {
+        expect(DEFAULT_DAY_BOUNDARY).toEqual({ timeZone: 'UTC', rolloverHour: 1 });
+        const start = at('2024-03-09T00:00:00Z');
+        for (let minutes = 0; minutes < 3 * 24 * 60; minutes += 17) {
+            const timestamp = start + minutes * 60 * 1000;
+            expect(getCycleDateString(timestamp)).toBe(legacyCycleDate(timestamp));
+        }
+        expect(getCycleDateString(at('2024-03-10T00:59:59Z'))).toBe('2024-03-09');
+        expect(getCycleDateString(at('2024-03-10T01:00:00Z'))).toBe('2024-03-10');
+    });
+
+    it('rolls over at midnight with hour 0', () => {
+        const boundary = { timeZone: 'Europe/Berlin', rolloverHour: 0 };
+        expect(getCycleDateString(at('2024-06-01T21:59:00Z'), boundary)).toBe('2024-06-01');
+        expect(getCycleDateString(at('2024-06-01T22:00:00Z'), boundary)).toBe('2024-06-02');
+    });
+
+    it('rolls over at 1 AM local time with hour 1', () => {
+        const boundary = { timeZone: 'Asia/Tokyo', rolloverHour: 1 };
+        expect(getCycleDateString(at('2024-06-01T15:59:00Z'), boundary)).toBe('2024-06-01');
+        expect(getCycleDateString(at('2024-06-01T16:00:00Z'), boundary)).toBe('2024-06-02');
+    });
+
+    it('books everything before 11 PM on the previous day with hour 23', () => {
+        const boundary = { timeZone: 'America/Los_Angeles', rolloverHour: 23 };
+        // 10:59 PM and 11 PM on June 1 in Los Angeles.
+        expect(getCycleDateString(at('2024-06-02T05:59:00Z'), boundary)).toBe('2024-05-31');
+        expect(getCycleDateString(at('2024-06-02T06:00:00Z'), boundary)).toBe('2024-06-01');
+        // Noon the next day still belongs to the cycle that began at 11 PM.
+        expect(getCycleDateString(at('2024-06-02T19:00:00Z'), boundary)).toBe('2024-06-01');
+    });
+
+    describe('on a spring-forward day', () => {
+        // New York skips from 2 AM to 3 AM on 2024-03-10.
+        const newYork = (rolloverHour: number) => ({ timeZone: 'America/New_York', rolloverHour });
+
+        it('rolls over at the usual local hour around the gap', () => {
+            expect(getCycleDateString(at('2024-03-10T05:59:00Z'), newYork(1))).toBe('2024-03-09');
+            expect(getCycleDateString(at('2024-03-10T06:00:00Z'), newYork(1))).toBe('2024-03-10');
+        });
+
+        it('rolls over as soon as the skipped hour would have started', () => {
+            // 1:59 AM EST, then 3 AM EDT one minute later.
+            expect(getCycleDateString(at('2024-03-10T06:59:00Z'), newYork(2))).toBe('2024-03-09');
+            expect(getCycleDateString(at('2024-03-10T07:00:00Z'), newYork(2))).toBe('2024-03-10');
+        });
+
+        it('gives the short day 23 hours', () => {
+            const start = at('2024-03-10T05:00:00Z');
+            expect(getCycleDateString(start - 60 * 1000, newYork(0))).toBe('2024-03-09');
+            expect(getCycleDateString(start, newYork(0))).toBe('2024-03-10');
+            expect(getCycleDateString(start + 23 * 60 * 60 * 1000 - 60 * 1000, newYork(0))).toBe('2024-03-10');
+            expect(getCycleDateString(start + 23 * 60 * 60 * 1000, newYork(0))).toBe('2024-03-11');
+        });
+    });
+
+    describe('on a fall-back day', () => {
+        // New York repeats the hour from 1 AM to 2 AM on 2024-11-03.
+        const newYork = (rolloverHour: number) => ({ timeZone: 'America/New_York', rolloverHour });
+
+        it('rolls over once, at the first of the repeated hours', () => {
+            expect(getCycleDateString(at('2024-11-03T04:59:00Z'), newYork(1))).toBe('2024-11-02');
+            // 1:30 AM EDT, then 1:30 AM EST.
+            expect(getCycleDateString(at('2024-11-03T05:30:00Z'), newYork(1))).toBe('2024-11-03');
+            expect(getCycleDateString(at('2024-11-03T06:30:00Z'), newYork(1))).toBe('2024-11-03');
+        });
+
+        it('gives the long day 25 hours', () => {
+            const start = at('2024-11-03T04:00:00Z');
+            expect(getCycleDateString(start, newYork(0))).toBe('2024-11-03');
+            expect(getCycleDateString(start + 25 * 60 * 60 * 1000 - 60 * 1000, newYork(0))).toBe('2024-11-03');
+            expect(getCycleDateString(start + 25 * 60 * 60 * 1000, newYork(0))).toBe('2024-11-04');
+        });
+    });
+
+    it('falls back to UTC for an unknown timezone and keeps the rollover hour', () => {
+        const boundary = { timeZone: 'Not/AZone', rolloverHour: 5 };
+        expect(getCycleDateString(at('2024-06-02T04:59:00Z'), boundary)).toBe('2024-06-01');
+        expect(getCycleDateString(at('2024-06-02T05:00:00Z'), boundary)).toBe('2024-06-02');
+    });
+});
+
+describe('addDays and listDates', () => {
+    it('step over month ends and DST changes by whole days', () => {
+        expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+        expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+        expect(listDates('2024-03-09', '2024-03-11')).toEqual(['2024-03-09', '2024-03-10', '2024-03-11']);
+    });
+});
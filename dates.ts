@@ -0,0 +1,69 @@
+// dates.ts
+import { DayBoundary } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The original cycle: days roll over at 1 AM UTC. Rooms without settings keep using it.
+export const DEFAULT_DAY_BOUNDARY: DayBoundary = {
+    timeZone: 'UTC',
+    rolloverHour: 1,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            hourCycle: 'h23',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * The cycle day a moment belongs to. The wall-clock time in the reference
+ * timezone is compared with the rollover hour, so days stay aligned with local
+ * midnight-ish even when DST makes them 23 or 25 hours long.
+ */
+export const getCycleDateString = (timestamp: number, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY): string => {
+    const timeZone = isValidTimeZone(boundary.timeZone) ? boundary.timeZone : DEFAULT_DAY_BOUNDARY.timeZone;
+    const parts: { [type: string]: string } = {};
+    getFormatter(timeZone).formatToParts(new Date(timestamp)).forEach(({ type, value }) => {
+        parts[type] = value;
+    });
+    const localDate = `${parts.year}-${parts.month}-${parts.day}`;
+    return parseInt(parts.hour, 10) < boundary.rolloverHour ? addDays(localDate, -1) : localDate;
+};
+
+// Date strings are plain calendar days, so the arithmetic is done at UTC noon to stay clear of any boundary.
+const parseDateString = (date: string) => Date.parse(`${date}T12:00:00Z`);
+
+export const addDays = (date: string, days: number): string => {
+    const shifted = new Date(parseDateString(date) + days * DAY_MS);
+    return shifted.toISOString().slice(0, 10);
+};
+
+// Every date from `from` to `to`, both included.
+export const listDates = (from: string, to: string): string[] => {
+    const dates: string[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        dates.push(date);
+    }
+    return dates;
+};
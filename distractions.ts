@@ -0,0 +1,46 @@
+// distractions.ts
+const SETTINGS_STORAGE_KEY = 'politos.distractionSettings';
+
+export type DistractionSettings = {
+    enabled: boolean;
+    // Minutes away after which a focusing session pauses itself, or null to never pause.
+    autoPauseMinutes: number | null;
+};
+
+export const DEFAULT_DISTRACTION_SETTINGS: DistractionSettings = {
+    enabled: false,
+    autoPauseMinutes: null,
+};
+
+export const AUTO_PAUSE_OPTIONS = [1, 2, 5, 10, 15, 30];
+
+// Switching away for a moment, such as to check the time, is not a distraction.
+export const MIN_AWAY_MS = 3 * 1000;
+
+/**
+ * The share of a session's focus time spent in the app, as a percentage. Time
+ * away while paused does not count, since pauses are not focus time.
+ */
+export const getFocusScore = (focusSeconds: number, awayMs: number): number => {
+    if (focusSeconds <= 0) return 100;
+    const score = 100 * (1 - awayMs / 1000 / focusSeconds);
+    return Math.max(0, Math.min(100, Math.round(score)));
+};
+
+export const loadDistractionSettings = (): DistractionSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+        return { ...DEFAULT_DISTRACTION_SETTINGS, ...(saved && typeof saved === 'object' ? saved : {}) };
+    } catch (error) {
+        console.error("Could not read the distraction settings:", error);
+        return DEFAULT_DISTRACTION_SETTINGS;
+    }
+};
+
+export const saveDistractionSettings = (settings: DistractionSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Could not save the distraction settings:", error);
+    }
+};
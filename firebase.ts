@@ -5,9 +5,15 @@ import { firebaseConfig } from './constants';
 // which is created by the scripts we added to index.html.
 declare var firebase: any;
 
+// The compat scripts are missing when the page is opened without a network,
+// in which case the app falls back to the local backend.
+export const isFirebaseAvailable = typeof firebase !== 'undefined';
+
 // Initialize Firebase from the global object
-const app = firebase.initializeApp(firebaseConfig);
+const app = isFirebaseAvailable ? firebase.initializeApp(firebaseConfig) : null;
 
 // Use the v8-compat syntax to get the database and auth services
-export const database = firebase.database();
-export const auth = firebase.auth();
+export const database = isFirebaseAvailable ? firebase.database() : null;
+export const auth = isFirebaseAvailable ? firebase.auth() : null;
+export const ServerValue = isFirebaseAvailable ? firebase.database.ServerValue : null;
+export const EmailAuthProvider = isFirebaseAvailable ? firebase.auth.EmailAuthProvider : null;
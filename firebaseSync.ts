@@ -0,0 +1,284 @@
+// firebaseSync.ts
+import { database, auth, ServerValue, EmailAuthProvider } from './firebase';
+import { BlobMeta, BlobStore, joinChunks, splitIntoChunks } from './blobs';
+import { IDLE_SESSION_FIELDS, SyncBackend, getPartnerCharacter, toCharacterClaim, toInboxItems, toProfiles, toRoomSettings, toSessionRecords, toStudyDates, toSubjects, toTasks, toUserStatus } from './sync';
+
+const roomRef = (roomId: string, path?: string) =>
+    database.ref(path ? `rooms/${roomId}/${path}` : `rooms/${roomId}`);
+
+// Attaches a 'value' listener and hands back the matching detach call.
+const listen = (ref: any, callback: (snapshot: any) => void, onError?: (error: Error) => void) => {
+    ref.on('value', callback, onError);
+    return () => ref.off('value', callback);
+};
+
+export const createFirebaseBackend = (): SyncBackend => ({
+    name: 'firebase',
+
+    signIn: async () => {
+        // Signing in anonymously while a linked identity is restored would replace it, so wait for the restore first.
+        const restoredUser = await new Promise<any>((resolve) => {
+            const unsubscribe = auth.onAuthStateChanged((user: any) => {
+                unsubscribe();
+                resolve(user);
+            });
+        });
+        if (restoredUser) return restoredUser.uid;
+        const userCredential = await auth.signInAnonymously();
+        return userCredential.user.uid;
+    },
+
+    getLinkedEmail: () => auth.currentUser?.email || null,
+
+    linkEmail: async (email, password) => {
+        await auth.currentUser.linkWithCredential(EmailAuthProvider.credential(email, password));
+    },
+
+    signInWithEmail: async (email, password) => {
+        const userCredential = await auth.signInWithEmailAndPassword(email, password);
+        return userCredential.user.uid;
+    },
+
+    onConnectionChange: (callback, onError) =>
+        listen(database.ref('.info/connected'), (snapshot) => callback(snapshot.val() === true), onError),
+
+    onServerTimeOffset: (callback) =>
+        listen(database.ref('.info/serverTimeOffset'), (snapshot) => callback(snapshot.val() || 0)),
+
+    createRoom: async (pairingCode) => {
+        const roomId: string = database.ref('rooms').push().key;
+        // Claim the code atomically so two rooms can never share one.
+        const result = await database.ref(`pairingCodes/${pairingCode}`).transaction((current: string | null) => (
+            current === null ? roomId : undefined
+        ));
+        if (!result.committed) return null;
+        await roomRef(roomId).update({
+            meta: { pairingCode, createdAt: ServerValue.TIMESTAMP },
+            [`members/${auth.currentUser.uid}`]: pairingCode,
+        });
+        return roomId;
+    },
+
+    findRoomByCode: async (pairingCode) => {
+        const snapshot = await database.ref(`pairingCodes/${pairingCode}`).get();
+        return snapshot.val() || null;
+    },
+
+    joinRoom: (roomId, pairingCode) => roomRef(roomId, `members/${auth.currentUser.uid}`).set(pairingCode),
+
+    onRoomSettings: (roomId, callback, onError) =>
+        listen(roomRef(roomId, 'settings'), (snapshot) => callback(toRoomSettings(snapshot.val())), onError),
+
+    updateRoomSettings: (roomId, settings) => roomRef(roomId, 'settings').update(settings),
+
+    // Every connection gets its own entry, which the server removes when that connection drops.
+    connectPresence: (roomId, character, deviceId) => {
+        let connectionRef: any = null;
+        const stopListening = listen(database.ref('.info/connected'), (snapshot) => {
+            if (snapshot.val() === false) return;
+
+            const ref = roomRef(roomId, `presence/${character}`).push();
+            connectionRef = ref;
+            ref.onDisconnect().remove().then(() => {
+                ref.set({ deviceId, connectedAt: ServerValue.TIMESTAMP }).catch((err: Error) => console.error("Could not register the connection:", err));
+            }).catch((err: Error) => {
+                console.error("Could not set onDisconnect handler:", err)
+            });
+        });
+        return () => {
+            stopListening();
+            if (!connectionRef) return;
+            connectionRef.onDisconnect().cancel();
+            connectionRef.remove().catch((err: Error) => console.error("Could not remove the connection:", err));
+        };
+    },
+
+    getUserStatus: async (roomId, character) => {
+        const [status, presence] = await Promise.all([
+            roomRef(roomId, `users/${character}`).get(),
+            roomRef(roomId, `presence/${character}`).get(),
+        ]);
+        return toUserStatus(status.val(), presence.val());
+    },
+
+    // Waits for both the user node and the connections before the first callback.
+    onUserStatus: (roomId, character, callback, onError) => {
+        let status: any;
+        let presence: any;
+        const emit = () => {
+            if (status !== undefined && presence !== undefined) callback(toUserStatus(status, presence));
+        };
+        const stopStatus = listen(roomRef(roomId, `users/${character}`), (snapshot) => { status = snapshot.val(); emit(); }, onError);
+        const stopPresence = listen(roomRef(roomId, `presence/${character}`), (snapshot) => { presence = snapshot.val(); emit(); }, onError);
+        return () => {
+            stopStatus();
+            stopPresence();
+        };
+    },
+
+    claimCharacter: async (roomId, character, uid, takeOver) => {
+        // The rules give an identity one character, and only let a claim move while none of its holder's devices is connected.
+        const partnerClaim = toCharacterClaim((await roomRef(roomId, `claims/${getPartnerCharacter(character)}`).get()).val());
+        if (partnerClaim?.uid === uid) return 'holdsPartner';
+        const holderConnected = takeOver && (await roomRef(roomId, `presence/${character}`).get()).exists();
+        const result = await roomRef(roomId, `claims/${character}`).transaction((current: { uid: string } | null) => (
+            !current || current.uid === uid || (takeOver && !holderConnected) ? { uid, claimedAt: ServerValue.TIMESTAMP } : undefined
+        ));
+        return result.committed ? 'claimed' : 'heldByOther';
+    },
+
+    onCharacterClaim: (roomId, character, callback, onError) =>
+        listen(roomRef(roomId, `claims/${character}`), (snapshot) => callback(toCharacterClaim(snapshot.val())), onError),
+
+    writeSession: (roomId, character, session) => roomRef(roomId, `users/${character}`).update(session),
+
+    endSession: (roomId, character, recordId, record, resetStatus) => {
+        const { date, focusSeconds, jointSeconds } = record;
+        const updates: { [key: string]: any } = {};
+        updates[`sessions/${character}/${recordId}`] = record;
+        if (focusSeconds > 0) {
+            updates[`dailyStats/${date}/${character}/totalFocusTime`] = ServerValue.increment(focusSeconds);
+            if (record.subjectId) {
+                updates[`dailyStats/${date}/${character}/subjects/${record.subjectId}`] = ServerValue.increment(focusSeconds);
+            }
+        }
+        if (jointSeconds > 0) {
+            updates[`dailyStats/${date}/joint/totalFocusTime`] = ServerValue.increment(jointSeconds);
+        }
+        if (record.studyDateId && record.studyDateSeconds) {
+            updates[`studyDates/${record.studyDateId}/jointSeconds/${character}`] = ServerValue.increment(record.studyDateSeconds);
+        }
+        (record.completedTasks || []).forEach(task => {
+            updates[`tasks/${character}/${task.id}`] = null;
+        });
+        if (resetStatus) {
+            (Object.keys(IDLE_SESSION_FIELDS) as Array<keyof typeof IDLE_SESSION_FIELDS>).forEach(field => {
+                updates[`users/${character}/${field}`] = IDLE_SESSION_FIELDS[field];
+            });
+        }
+        return roomRef(roomId).update(updates);
+    },
+
+    hasSessionRecord: async (roomId, character, recordId) => {
+        const snapshot = await roomRef(roomId, `sessions/${character}/${recordId}`).get();
+        return snapshot.exists();
+    },
+
+    sendHeartbeat: (roomId, character, at) => roomRef(roomId, `users/${character}/lastHeartbeat`).set(at),
+
+    sendMessage: (roomId, recipient, message) => roomRef(roomId, `inbox/${recipient}`).push({
+        message,
+        sentAt: ServerValue.TIMESTAMP,
+        read: false,
+    }).then(() => undefined),
+
+    onInbox: (roomId, character, limit, callback, onError) =>
+        listen(
+            roomRef(roomId, `inbox/${character}`).orderByChild('sentAt').limitToLast(limit),
+            (snapshot) => callback(toInboxItems(snapshot.val())),
+            onError,
+        ),
+
+    onUnreadInbox: (roomId, character, callback, onError) =>
+        listen(
+            roomRef(roomId, `inbox/${character}`).orderByChild('read').equalTo(false),
+            (snapshot) => callback(toInboxItems(snapshot.val())),
+            onError,
+        ),
+
+    markInboxRead: (roomId, character, itemIds) => {
+        const updates: { [key: string]: boolean } = {};
+        itemIds.forEach(id => { updates[`${id}/read`] = true; });
+        return roomRef(roomId, `inbox/${character}`).update(updates);
+    },
+
+    onDailyStats: (roomId, date, callback, onError) =>
+        listen(roomRef(roomId, `dailyStats/${date}`), (snapshot) => callback(snapshot.val() || {}), onError),
+
+    onDailyStatsRange: (roomId, from, to, callback, onError) =>
+        listen(
+            roomRef(roomId, 'dailyStats').orderByKey().startAt(from).endAt(to),
+            (snapshot) => callback(snapshot.val() || {}),
+            onError,
+        ),
+
+    onGoals: (roomId, callback, onError) =>
+        listen(roomRef(roomId, 'goals'), (snapshot) => callback(snapshot.val() || {}), onError),
+
+    setGoal: (roomId, owner, minutes) => roomRef(roomId, `goals/${owner}`).set(minutes),
+
+    onTasks: (roomId, character, callback, onError) =>
+        listen(roomRef(roomId, `tasks/${character}`), (snapshot) => callback(toTasks(snapshot.val())), onError),
+
+    addTask: (roomId, character, text) => roomRef(roomId, `tasks/${character}`).push({
+        text,
+        done: false,
+        createdAt: ServerValue.TIMESTAMP,
+    }).then(() => undefined),
+
+    setTaskDone: (roomId, character, taskId, done) => roomRef(roomId, `tasks/${character}/${taskId}/done`).set(done),
+
+    removeTask: (roomId, character, taskId) => roomRef(roomId, `tasks/${character}/${taskId}`).remove(),
+
+    onProfiles: (roomId, callback, onError) =>
+        listen(roomRef(roomId, 'profiles'), (snapshot) => callback(toProfiles(snapshot.val())), onError),
+
+    updateProfile: (roomId, character, profile) => roomRef(roomId, `profiles/${character}`).set(profile),
+
+    onSubjects: (roomId, callback, onError) =>
+        listen(roomRef(roomId, 'subjects'), (snapshot) => callback(toSubjects(snapshot.val())), onError),
+
+    addSubject: async (roomId, subject) => {
+        const subjectRef = roomRef(roomId, 'subjects').push();
+        await subjectRef.set(subject);
+        return subjectRef.key as string;
+    },
+
+    removeSubject: (roomId, subjectId) => roomRef(roomId, `subjects/${subjectId}`).remove(),
+
+    onStudyDates: (roomId, callback, onError) =>
+        listen(roomRef(roomId, 'studyDates'), (snapshot) => callback(toStudyDates(snapshot.val())), onError),
+
+    proposeStudyDate: async (roomId, date) => {
+        const dateRef = roomRef(roomId, 'studyDates').push();
+        await dateRef.set({ ...date, status: 'pending', createdAt: ServerValue.TIMESTAMP });
+        return dateRef.key as string;
+    },
+
+    setStudyDateStatus: (roomId, dateId, status) => roomRef(roomId, `studyDates/${dateId}/status`).set(status),
+
+    onSessionHistory: (roomId, character, limit, callback, onError) =>
+        listen(
+            roomRef(roomId, `sessions/${character}`).orderByChild('startTime').limitToLast(limit),
+            (snapshot) => callback(toSessionRecords(snapshot.val())),
+            onError,
+        ),
+});
+
+// Blobs are kept in the database next to the room, split into chunks so no single write gets large.
+export const createFirebaseBlobStore = (): BlobStore => ({
+    name: 'firebase',
+
+    upload: async (roomId, blob, onProgress) => {
+        const blobRef = roomRef(roomId, 'blobs').push();
+        const chunks = await splitIntoChunks(blob);
+        for (let index = 0; index < chunks.length; index++) {
+            await blobRef.child(`chunks/${index}`).set(chunks[index]);
+            onProgress?.((index + 1) / chunks.length);
+        }
+        // The meta goes last, so a blob without one is an upload that never finished.
+        const meta: BlobMeta = { mimeType: blob.type, size: blob.size, chunkCount: chunks.length };
+        await blobRef.child('meta').set({ ...meta, createdAt: ServerValue.TIMESTAMP });
+        return blobRef.key as string;
+    },
+
+    download: async (roomId, blobId) => {
+        const blobRef = roomRef(roomId, `blobs/${blobId}`);
+        const meta: BlobMeta | null = (await blobRef.child('meta').get()).val();
+        if (!meta) throw new Error('This voice note is no longer available.');
+        const chunks = await Promise.all(
+            Array.from({ length: meta.chunkCount }, async (_, index) => (await blobRef.child(`chunks/${index}`).get()).val() as string)
+        );
+        return joinChunks(chunks, meta.mimeType);
+    },
+});
@@ -0,0 +1,55 @@
+// goals.ts
+import { DailyStats, DailyStatsByDate, Goals, StatsOwner } from './types';
+import { addDays } from './dates';
+
+// How far back streaks are looked for.
+export const STREAK_WINDOW_DAYS = 365;
+
+export type Streak = {
+    current: number;
+    best: number;
+};
+
+/**
+ * A day counts once the owner reaches their goal, or, without a goal, as soon
+ * as they focused at all.
+ */
+export const meetsGoal = (dayStats: DailyStats | undefined, owner: StatsOwner, goals: Goals): boolean => {
+    const seconds = dayStats?.[owner]?.totalFocusTime || 0;
+    const goalMinutes = goals[owner];
+    return goalMinutes ? seconds >= goalMinutes * 60 : seconds > 0;
+};
+
+/**
+ * Counts runs of consecutive cycle days that pass `isDayMet`. The current
+ * streak may end yesterday, so it only breaks once today is over without progress.
+ */
+export const computeStreak = (stats: DailyStatsByDate, today: string, isDayMet: (dayStats: DailyStats | undefined) => boolean): Streak => {
+    let best = 0;
+    let run = 0;
+    for (let offset = STREAK_WINDOW_DAYS - 1; offset >= 0; offset--) {
+        run = isDayMet(stats[addDays(today, -offset)]) ? run + 1 : 0;
+        best = Math.max(best, run);
+    }
+
+    let current = 0;
+    const startOffset = isDayMet(stats[today]) ? 0 : 1;
+    for (let offset = startOffset; offset < STREAK_WINDOW_DAYS && isDayMet(stats[addDays(today, -offset)]); offset++) {
+        current++;
+    }
+
+    return { current, best };
+};
+
+export type StreakSummary = Record<StatsOwner | 'couple', Streak>;
+
+// Personal streaks for both partners, plus the couple streak of days on which both met their goals.
+export const computeStreaks = (stats: DailyStatsByDate, today: string, owners: StatsOwner[], goals: Goals): StreakSummary => {
+    const summary = {} as StreakSummary;
+    owners.forEach(owner => {
+        summary[owner] = computeStreak(stats, today, dayStats => meetsGoal(dayStats, owner, goals));
+    });
+    const people = owners.filter(owner => owner !== 'joint');
+    summary.couple = computeStreak(stats, today, dayStats => people.every(owner => meetsGoal(dayStats, owner, goals)));
+    return summary;
+};
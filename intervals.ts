@@ -0,0 +1,83 @@
+// intervals.ts
+import { IntervalPhase, IntervalSchedule, IntervalSettings } from './types';
+
+const SETTINGS_STORAGE_KEY = 'politos.intervalSettings';
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_INTERVAL_SETTINGS: IntervalSettings = {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    cyclesBeforeLongBreak: 4,
+};
+
+export type IntervalPhaseInfo = {
+    phase: IntervalPhase;
+    // 1-based work cycle within the current round of cyclesBeforeLongBreak.
+    cycle: number;
+    phaseEndsAt: number;
+    remainingSeconds: number;
+};
+
+export const PHASE_LABELS: Record<IntervalPhase, string> = {
+    [IntervalPhase.Work]: 'Focus',
+    [IntervalPhase.ShortBreak]: 'Short break',
+    [IntervalPhase.LongBreak]: 'Long break',
+};
+
+/**
+ * Works out where a schedule stands at a given moment. The schedule runs on
+ * wall-clock time from its start, so everyone sharing it changes phase together.
+ */
+export const getIntervalPhase = (schedule: IntervalSchedule, at: number): IntervalPhaseInfo => {
+    const work = schedule.workMinutes * MINUTE_MS;
+    const shortBreak = schedule.shortBreakMinutes * MINUTE_MS;
+    const longBreak = schedule.longBreakMinutes * MINUTE_MS;
+    const cycles = Math.max(1, schedule.cyclesBeforeLongBreak);
+    const roundLength = cycles * work + (cycles - 1) * shortBreak + longBreak;
+
+    const sinceStart = Math.max(0, at - schedule.startTime);
+    const roundStart = at - (sinceStart % roundLength);
+    let phaseStart = roundStart;
+
+    for (let cycle = 1; cycle <= cycles; cycle++) {
+        const breakLength = cycle === cycles ? longBreak : shortBreak;
+        const phases: Array<[IntervalPhase, number]> = [
+            [IntervalPhase.Work, work],
+            [cycle === cycles ? IntervalPhase.LongBreak : IntervalPhase.ShortBreak, breakLength],
+        ];
+        for (const [phase, length] of phases) {
+            const phaseEndsAt = phaseStart + length;
+            if (at < phaseEndsAt) {
+                return { phase, cycle, phaseEndsAt, remainingSeconds: Math.ceil((phaseEndsAt - at) / 1000) };
+            }
+            phaseStart = phaseEndsAt;
+        }
+    }
+    // Only reachable through floating point edge cases at the very end of a round.
+    return { phase: IntervalPhase.Work, cycle: 1, phaseEndsAt: at + work, remainingSeconds: Math.ceil(work / 1000) };
+};
+
+export const isBreakPhase = (phase: IntervalPhase) => phase !== IntervalPhase.Work;
+
+const isValidSettings = (settings: any): settings is IntervalSettings => !!settings &&
+    [settings.workMinutes, settings.shortBreakMinutes, settings.longBreakMinutes, settings.cyclesBeforeLongBreak]
+        .every(value => typeof value === 'number' && value >= 1);
+
+export const loadIntervalSettings = (): IntervalSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+        return isValidSettings(saved) ? saved : DEFAULT_INTERVAL_SETTINGS;
+    } catch (error) {
+        console.error("Could not read the interval settings:", error);
+        return DEFAULT_INTERVAL_SETTINGS;
+    }
+};
+
+export const saveIntervalSettings = (settings: IntervalSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Could not save the interval settings:", error);
+    }
+};
@@ -0,0 +1,122 @@
+// journal.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { JournalAction, JournalEntry, createJournal, resolveEntry } from './journal';
+import { withSchemaValidation } from './schema';
+import { SyncBackend } from './sync';
+import { IDLE_SESSION, pauseSession, startSession } from './session';
+import { Character, SessionState, UserStatus } from './types';
+
+// The shared journal is created on import; the tests build their own around fake backends.
+vi.mock('./backend', () => ({ backend: {}, deviceStorage: null }));
+
+const START = Date.parse('2024-06-01T10:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+const entry = (action: JournalAction, session: SessionState, deviceId = 'device-a'): JournalEntry => ({
+    id: `${action}-1`,
+    roomId: 'room',
+    character: Character.Flynn,
+    action,
+    sessionStart: START,
+    deviceId,
+    session,
+});
+
+const serverStatus = (session: SessionState): UserStatus => ({
+    ...session,
+    isOnline: true,
+    onlineDeviceIds: [],
+    lastHeartbeat: null,
+});
+
+const running = startSession(null, START, null, false, 'device-a');
+const paused = pauseSession(running, START + 5 * MINUTE_MS);
+
+describe('resolveEntry', () => {
+    it('applies actions on the session the server still shows', () => {
+        expect(resolveEntry(entry('pause', paused), serverStatus(running))).toBe('apply');
+        expect(resolveEntry(entry('end', IDLE_SESSION), serverStatus(paused))).toBe('apply');
+    });
+
+    it('applies a start the server has not seen yet', () => {
+        expect(resolveEntry(entry('start', running), null)).toBe('apply');
+        expect(resolveEntry(entry('start', running), serverStatus(IDLE_SESSION))).toBe('apply');
+    });
+
+    it('keeps a newer session and only books an ended one', () => {
+        const newer = serverStatus(startSession(null, START + 30 * MINUTE_MS, null, false, 'device-b'));
+        expect(resolveEntry(entry('pause', paused), newer)).toBe('drop');
+        expect(resolveEntry(entry('end', IDLE_SESSION), newer)).toBe('recordOnly');
+    });
+
+    it('drops actions on a session that was ended elsewhere', () => {
+        expect(resolveEntry(entry('pause', paused), serverStatus(IDLE_SESSION))).toBe('drop');
+        expect(resolveEntry(entry('end', IDLE_SESSION), serverStatus(IDLE_SESSION))).toBe('drop');
+        expect(resolveEntry(entry('end', IDLE_SESSION), null)).toBe('drop');
+    });
+
+    it('drops actions on a session another device continued', () => {
+        const continued = serverStatus({ ...running, ownerDeviceId: 'device-b' });
+        expect(resolveEntry(entry('pause', paused), continued)).toBe('drop');
+        expect(resolveEntry(entry('end', IDLE_SESSION), continued)).toBe('drop');
+    });
+
+    it('applies this device continuing the session, and its actions after that', () => {
+        const elsewhere = serverStatus({ ...running, ownerDeviceId: 'device-b' });
+        expect(resolveEntry(entry('handover', { ...running, ownerDeviceId: 'device-a' }), elsewhere)).toBe('apply');
+        expect(resolveEntry(entry('pause', paused), serverStatus(running))).toBe('apply');
+    });
+
+    it('applies entries from before devices were told apart', () => {
+        const legacy = { ...entry('pause', paused), deviceId: undefined };
+        expect(resolveEntry(legacy, serverStatus({ ...running, ownerDeviceId: 'device-b' }))).toBe('apply');
+        expect(resolveEntry(entry('pause', paused), serverStatus({ ...running, ownerDeviceId: null }))).toBe('apply');
+    });
+});
+
+describe('journal replay', () => {
+    const rejection = () => Object.assign(new Error('PERMISSION_DENIED: Permission denied'), { code: 'PERMISSION_DENIED' });
+
+    const createBackend = (writeSession: (session: SessionState) => Promise<void>) => ({
+        getUserStatus: async () => serverStatus(running),
+        hasSessionRecord: async () => false,
+        writeSession: (_roomId: string, _character: Character, session: SessionState) => writeSession(session),
+    }) as unknown as SyncBackend;
+
+    it('discards a rejected entry and goes on with the ones after it', async () => {
+        const written: SessionState[] = [];
+        const journal = createJournal(createBackend(async (session) => {
+            if (session === paused) throw rejection();
+            written.push(session);
+        }), null);
+        journal.append({ ...entry('pause', paused), id: 'first' });
+        journal.append({ ...entry('resume', running), id: 'second' });
+
+        const report = await journal.replay();
+        expect(report.rejected.map(rejected => rejected.id)).toEqual(['first']);
+        expect(report.applied).toBe(1);
+        expect(written).toEqual([running]);
+        expect(journal.entries()).toEqual([]);
+    });
+
+    it('discards an entry that breaks the schema', async () => {
+        const written: SessionState[] = [];
+        const journal = createJournal(withSchemaValidation(createBackend(async (session) => { written.push(session); })), null);
+        journal.append({ ...entry('pause', { ...paused, totalPausedTime: -5 }), id: 'first' });
+        journal.append({ ...entry('pause', paused), id: 'second' });
+
+        const report = await journal.replay();
+        expect(report.rejected.map(rejected => rejected.id)).toEqual(['first']);
+        expect(written).toEqual([paused]);
+    });
+
+    it('keeps an entry that failed for a passing reason and stops there', async () => {
+        const journal = createJournal(createBackend(async () => { throw new Error('Network error'); }), null);
+        journal.append({ ...entry('pause', paused), id: 'first' });
+        journal.append({ ...entry('resume', running), id: 'second' });
+
+        const report = await journal.replay();
+        expect(report).toEqual({ applied: 0, superseded: 0, rejected: [] });
+        expect(journal.entries().map(kept => kept.id)).toEqual(['first', 'second']);
+    });
+});
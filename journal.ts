@@ -0,0 +1,168 @@
+// journal.ts
+import { backend, deviceStorage } from './backend';
+import { isRejectedWrite } from './schema';
+import { isInSession } from './session';
+import { NewSessionRecord, SyncBackend } from './sync';
+import { Character, SessionState, UserStatus } from './types';
+
+const JOURNAL_STORAGE_KEY = 'politos.sessionJournal';
+
+export type JournalAction = 'start' | 'pause' | 'resume' | 'distraction' | 'handover' | 'end';
+
+export type JournalEntry = {
+    id: string;
+    roomId: string;
+    character: Character;
+    action: JournalAction;
+    // Start time of the session the action belongs to.
+    sessionStart: number;
+    // The device that took the action; missing on entries from before devices were told apart.
+    deviceId?: string;
+    // The session state right after the action; idle once a session ends.
+    session: SessionState;
+    // Only set on 'end'. Saved under the entry id, so a replay can tell whether it already landed.
+    record?: NewSessionRecord;
+};
+
+export type ReplayReport = {
+    applied: number;
+    // Actions left out because the server had moved on in the meantime, see resolveEntry.
+    superseded: number;
+    // Actions the database turned down for good; they are taken off the journal unsaved.
+    rejected: JournalEntry[];
+};
+
+export type Resolution = 'apply' | 'recordOnly' | 'drop';
+
+/**
+ * Decides how a journaled action meets the server state it is replayed on. The
+ * journal wins while the server still shows the same session run by the same
+ * device. A newer session can only have been started from another device: then
+ * the newer session is kept, and an offline session that already ended is
+ * still booked on the stats without touching it. A session that was ended or
+ * continued on another device in the meantime is theirs to book, so nothing
+ * more from this one is written.
+ */
+export const resolveEntry = (entry: JournalEntry, server: UserStatus | null): Resolution => {
+    const serverStart = server && isInSession(server.focusState) ? server.focusStartTime : null;
+    if (serverStart && serverStart > entry.sessionStart) {
+        return entry.action === 'end' ? 'recordOnly' : 'drop';
+    }
+    if (entry.action === 'start') return 'apply';
+    if (!serverStart) return 'drop';
+    if (serverStart === entry.sessionStart && entry.action !== 'handover' &&
+        server!.ownerDeviceId && entry.deviceId && server!.ownerDeviceId !== entry.deviceId) {
+        return 'drop';
+    }
+    return 'apply';
+};
+
+export const createJournalId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Session actions are kept on the device until the backend has them, so a
+ * dropped connection or a reload in between does not lose them. Entries are
+ * replayed oldest first and removed one at a time as each write succeeds, or
+ * as soon as the database rejects it outright.
+ */
+export const createJournal = (sync: SyncBackend, storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) => {
+    let entries: JournalEntry[] = [];
+    let replaying: Promise<ReplayReport> | null = null;
+    const listeners = new Set<(entries: JournalEntry[]) => void>();
+
+    const load = () => {
+        if (!storage) return;
+        try {
+            const saved = JSON.parse(storage.getItem(JOURNAL_STORAGE_KEY) || '[]');
+            entries = Array.isArray(saved) ? saved : [];
+        } catch (error) {
+            console.error("Could not read the session journal:", error);
+            entries = [];
+        }
+    };
+
+    const save = () => {
+        try {
+            storage?.setItem(JOURNAL_STORAGE_KEY, JSON.stringify(entries));
+        } catch (error) {
+            console.error("Could not save the session journal:", error);
+        }
+        listeners.forEach(listener => listener(entries));
+    };
+
+    const remove = (id: string) => {
+        load();
+        entries = entries.filter(entry => entry.id !== id);
+        save();
+    };
+
+    const replayEntry = async (entry: JournalEntry): Promise<Resolution> => {
+        const { roomId, character } = entry;
+        if (entry.action === 'end' && await sync.hasSessionRecord(roomId, character, entry.id)) {
+            return 'apply';
+        }
+        const resolution = resolveEntry(entry, await sync.getUserStatus(roomId, character));
+        if (resolution === 'drop') return resolution;
+        if (entry.record) {
+            await sync.endSession(roomId, character, entry.id, entry.record, resolution === 'apply');
+        } else {
+            await sync.writeSession(roomId, character, entry.session);
+        }
+        return resolution;
+    };
+
+    const runReplay = async (): Promise<ReplayReport> => {
+        const report: ReplayReport = { applied: 0, superseded: 0, rejected: [] };
+        load();
+        // Entries appended while a replay runs are picked up by the same loop.
+        while (entries.length > 0) {
+            const entry = entries[0];
+            try {
+                const resolution = await replayEntry(entry);
+                if (resolution === 'apply') report.applied++;
+                else report.superseded++;
+            } catch (error) {
+                if (isRejectedWrite(error)) {
+                    // Retrying would fail the same way and hold up every action behind it.
+                    console.error(`Journaled '${entry.action}' was rejected and is discarded:`, error, entry);
+                    report.rejected.push(entry);
+                } else {
+                    // Stop at the first failure so later actions never overtake it; the next replay picks it up.
+                    console.error(`Could not replay journaled '${entry.action}', will retry:`, error);
+                    break;
+                }
+            }
+            remove(entry.id);
+        }
+        return report;
+    };
+
+    load();
+
+    return {
+        entries: () => entries,
+
+        append: (entry: JournalEntry) => {
+            load();
+            entries = [...entries, entry];
+            save();
+        },
+
+        // Only one replay runs at a time; calls made while one is running share it.
+        replay: (): Promise<ReplayReport> => {
+            if (!replaying) {
+                replaying = runReplay().finally(() => { replaying = null; });
+            }
+            return replaying;
+        },
+
+        subscribe: (listener: (entries: JournalEntry[]) => void) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
+
+export type SessionJournal = ReturnType<typeof createJournal>;
+
+export const sessionJournal = createJournal(backend, deviceStorage);
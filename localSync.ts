@@ -0,0 +1,421 @@
+// localSync.ts
+import { BlobStore } from './blobs';
+import { IDLE_SESSION_FIELDS, SyncBackend, getPartnerCharacter, toCharacterClaim, toInboxItems, toProfiles, toRoomSettings, toSessionRecords, toStudyDates, toSubjects, toTasks, toUserStatus } from './sync';
+import { DailyStatsByDate, RoomSettings } from './types';
+
+const STORAGE_KEY = 'politos.localBackend';
+const CHANNEL_NAME = 'politos-local-sync';
+const DEVICE_ID_KEY = 'politos.localDeviceId';
+const BLOB_DB_NAME = 'politos-local-blobs';
+const BLOB_STORE_NAME = 'blobs';
+
+export type Tree = { [key: string]: any };
+
+export const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+export const getAt = (tree: Tree, path: string): any => {
+    let node: any = tree;
+    for (const key of splitPath(path)) {
+        if (node === null || typeof node !== 'object') return null;
+        node = node[key];
+    }
+    return node === undefined ? null : node;
+};
+
+// Writes a value the way the realtime database does: null removes the node and empty parents go with it.
+export const setAt = (tree: Tree, path: string, value: any) => {
+    const keys = splitPath(path);
+    const parents: Tree[] = [];
+    let node = tree;
+    keys.slice(0, -1).forEach(key => {
+        if (node[key] === null || typeof node[key] !== 'object') node[key] = {};
+        parents.push(node);
+        node = node[key];
+    });
+    const last = keys[keys.length - 1];
+    if (value === null || value === undefined) {
+        delete node[last];
+        for (let i = parents.length - 1; i >= 0 && Object.keys(node).length === 0; i--) {
+            delete parents[i][keys[i]];
+            node = parents[i];
+        }
+    } else {
+        node[last] = JSON.parse(JSON.stringify(value));
+    }
+};
+
+type Listener = { path: string; callback: (value: any) => void; lastJson: string | undefined };
+
+/**
+ * A JSON tree with the same path semantics as the realtime database. It is kept
+ * in localStorage when available so reloads keep their data, and writes are
+ * announced over a BroadcastChannel so every tab on the machine shares one tree.
+ */
+export const createTreeStore = (storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) => {
+    let tree: Tree = {};
+    const listeners = new Set<Listener>();
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+    const load = () => {
+        if (!storage) return;
+        try {
+            tree = JSON.parse(storage.getItem(STORAGE_KEY) || '{}');
+        } catch (error) {
+            console.error("Local backend data is corrupt, starting fresh:", error);
+            tree = {};
+        }
+    };
+
+    const notify = () => {
+        listeners.forEach(listener => {
+            const value = getAt(tree, listener.path);
+            const json = JSON.stringify(value);
+            if (json !== listener.lastJson) {
+                listener.lastJson = json;
+                listener.callback(value);
+            }
+        });
+    };
+
+    load();
+    if (channel) {
+        channel.onmessage = () => {
+            load();
+            notify();
+        };
+    }
+
+    return {
+        get: (path: string) => getAt(tree, path),
+
+        // Applies a multi-path update atomically, like ref().update() on the root.
+        update: (updates: { [path: string]: any }) => {
+            load();
+            Object.keys(updates).forEach(path => setAt(tree, path, updates[path]));
+            storage?.setItem(STORAGE_KEY, JSON.stringify(tree));
+            channel?.postMessage('changed');
+            notify();
+        },
+
+        subscribe: (path: string, callback: (value: any) => void) => {
+            const listener: Listener = { path, callback, lastJson: undefined };
+            listeners.add(listener);
+            // Deliver the current value asynchronously, as the database does.
+            queueMicrotask(() => {
+                if (!listeners.has(listener)) return;
+                listener.lastJson = JSON.stringify(getAt(tree, path));
+                callback(getAt(tree, path));
+            });
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
+
+export type TreeStore = ReturnType<typeof createTreeStore>;
+
+const randomId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+// Each tab signs in as a device of its own, so two tabs can play the two partners.
+const identityStorage = (): Storage | null => (typeof sessionStorage !== 'undefined' ? sessionStorage : null);
+
+const readDeviceId = (): string | null => identityStorage()?.getItem(DEVICE_ID_KEY) || null;
+
+// Database keys cannot hold dots, so linked emails are keyed with commas instead.
+const toAccountKey = (email: string) => email.trim().toLowerCase().replace(/\./g, ',');
+
+const hashPassword = async (password: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createLocalBackend = (store: TreeStore = createTreeStore()): SyncBackend => {
+    const roomPath = (roomId: string, path: string) => `rooms/${roomId}/${path}`;
+    const updateUser = (roomId: string, character: string, fields: { [field: string]: any }) => {
+        const updates: { [path: string]: any } = {};
+        Object.keys(fields).forEach(field => {
+            updates[roomPath(roomId, `users/${character}/${field}`)] = fields[field];
+        });
+        store.update(updates);
+        return Promise.resolve();
+    };
+
+    return {
+        name: 'local',
+
+        signIn: async () => {
+            let deviceId = readDeviceId();
+            if (!deviceId) {
+                deviceId = `local-${randomId()}`;
+                identityStorage()?.setItem(DEVICE_ID_KEY, deviceId);
+            }
+            return deviceId;
+        },
+
+        getLinkedEmail: () => {
+            const deviceId = readDeviceId();
+            const accounts: { [key: string]: { uid: string; email: string } } = store.get('accounts') || {};
+            return Object.values(accounts).find(account => account.uid === deviceId)?.email || null;
+        },
+
+        linkEmail: async (email, password) => {
+            const accountKey = toAccountKey(email);
+            if (store.get(`accounts/${accountKey}`) !== null) throw new Error('That email is already linked to another account.');
+            const deviceId = readDeviceId();
+            if (!deviceId) throw new Error('Not signed in.');
+            store.update({ [`accounts/${accountKey}`]: { uid: deviceId, email: email.trim(), passwordHash: await hashPassword(password) } });
+        },
+
+        signInWithEmail: async (email, password) => {
+            const account = store.get(`accounts/${toAccountKey(email)}`);
+            if (!account || account.passwordHash !== await hashPassword(password)) throw new Error('Wrong email or password.');
+            identityStorage()?.setItem(DEVICE_ID_KEY, account.uid);
+            return account.uid;
+        },
+
+        // There is no network to lose, so the local backend is always connected.
+        onConnectionChange: (callback) => {
+            queueMicrotask(() => callback(true));
+            return () => {};
+        },
+
+        // Timestamps are written with the device clock, so there is nothing to correct.
+        onServerTimeOffset: (callback) => {
+            queueMicrotask(() => callback(0));
+            return () => {};
+        },
+
+        createRoom: async (pairingCode) => {
+            if (store.get(`pairingCodes/${pairingCode}`) !== null) return null;
+            const roomId = randomId();
+            store.update({
+                [`pairingCodes/${pairingCode}`]: roomId,
+                [roomPath(roomId, 'meta')]: { pairingCode, createdAt: Date.now() },
+                [roomPath(roomId, `members/${readDeviceId()}`)]: pairingCode,
+            });
+            return roomId;
+        },
+
+        findRoomByCode: async (pairingCode) => store.get(`pairingCodes/${pairingCode}`),
+
+        joinRoom: async (roomId, pairingCode) => {
+            const deviceId = readDeviceId();
+            if (!deviceId) throw new Error('Not signed in.');
+            if (store.get(roomPath(roomId, 'meta/pairingCode')) !== pairingCode) throw new Error('That pairing code does not belong to this room.');
+            store.update({ [roomPath(roomId, `members/${deviceId}`)]: pairingCode });
+        },
+
+        onRoomSettings: (roomId, callback) =>
+            store.subscribe(roomPath(roomId, 'settings'), (value) => callback(toRoomSettings(value))),
+
+        updateRoomSettings: async (roomId, settings) => {
+            const updates: { [path: string]: any } = {};
+            (Object.keys(settings) as Array<keyof RoomSettings>).forEach(key => {
+                updates[roomPath(roomId, `settings/${key}`)] = settings[key];
+            });
+            store.update(updates);
+        },
+
+        // A closing tab is the local equivalent of a dropped connection.
+        connectPresence: (roomId, character, deviceId) => {
+            const connectionPath = roomPath(roomId, `presence/${character}/${randomId()}`);
+            const disconnect = () => { store.update({ [connectionPath]: null }); };
+            store.update({ [connectionPath]: { deviceId, connectedAt: Date.now() } });
+            window.addEventListener('pagehide', disconnect);
+            return () => {
+                window.removeEventListener('pagehide', disconnect);
+                disconnect();
+            };
+        },
+
+        getUserStatus: async (roomId, character) =>
+            toUserStatus(store.get(roomPath(roomId, `users/${character}`)), store.get(roomPath(roomId, `presence/${character}`))),
+
+        // Waits for both the user node and the connections before the first callback.
+        onUserStatus: (roomId, character, callback) => {
+            let status: any;
+            let presence: any;
+            const emit = () => {
+                if (status !== undefined && presence !== undefined) callback(toUserStatus(status, presence));
+            };
+            const stopStatus = store.subscribe(roomPath(roomId, `users/${character}`), (value) => { status = value; emit(); });
+            const stopPresence = store.subscribe(roomPath(roomId, `presence/${character}`), (value) => { presence = value; emit(); });
+            return () => {
+                stopStatus();
+                stopPresence();
+            };
+        },
+
+        claimCharacter: async (roomId, character, uid, takeOver) => {
+            const partnerClaim = toCharacterClaim(store.get(roomPath(roomId, `claims/${getPartnerCharacter(character)}`)));
+            if (partnerClaim?.uid === uid) return 'holdsPartner';
+            const current = toCharacterClaim(store.get(roomPath(roomId, `claims/${character}`)));
+            const holderConnected = store.get(roomPath(roomId, `presence/${character}`)) !== null;
+            if (current && current.uid !== uid && (!takeOver || holderConnected)) return 'heldByOther';
+            store.update({ [roomPath(roomId, `claims/${character}`)]: { uid, claimedAt: Date.now() } });
+            return 'claimed';
+        },
+
+        onCharacterClaim: (roomId, character, callback) =>
+            store.subscribe(roomPath(roomId, `claims/${character}`), (value) => callback(toCharacterClaim(value))),
+
+        writeSession: (roomId, character, session) => updateUser(roomId, character, session),
+
+        endSession: async (roomId, character, recordId, record, resetStatus) => {
+            const { date, focusSeconds, jointSeconds } = record;
+            const updates: { [path: string]: any } = {
+                [roomPath(roomId, `sessions/${character}/${recordId}`)]: record,
+            };
+            const increment = (path: string, seconds: number) => {
+                updates[path] = (store.get(path) || 0) + seconds;
+            };
+            const addTo = (owner: string, seconds: number) => increment(roomPath(roomId, `dailyStats/${date}/${owner}/totalFocusTime`), seconds);
+            if (focusSeconds > 0) addTo(character, focusSeconds);
+            if (focusSeconds > 0 && record.subjectId) {
+                increment(roomPath(roomId, `dailyStats/${date}/${character}/subjects/${record.subjectId}`), focusSeconds);
+            }
+            if (jointSeconds > 0) addTo('joint', jointSeconds);
+            if (record.studyDateId && record.studyDateSeconds) {
+                increment(roomPath(roomId, `studyDates/${record.studyDateId}/jointSeconds/${character}`), record.studyDateSeconds);
+            }
+            (record.completedTasks || []).forEach(task => {
+                updates[roomPath(roomId, `tasks/${character}/${task.id}`)] = null;
+            });
+            if (resetStatus) {
+                (Object.keys(IDLE_SESSION_FIELDS) as Array<keyof typeof IDLE_SESSION_FIELDS>).forEach(field => {
+                    updates[roomPath(roomId, `users/${character}/${field}`)] = IDLE_SESSION_FIELDS[field];
+                });
+            }
+            store.update(updates);
+        },
+
+        hasSessionRecord: async (roomId, character, recordId) =>
+            store.get(roomPath(roomId, `sessions/${character}/${recordId}`)) !== null,
+
+        sendHeartbeat: (roomId, character, at) => updateUser(roomId, character, { lastHeartbeat: at }),
+
+        sendMessage: async (roomId, recipient, message) => {
+            store.update({ [roomPath(roomId, `inbox/${recipient}/${randomId()}`)]: { message, sentAt: Date.now(), read: false } });
+        },
+
+        onInbox: (roomId, character, limit, callback) =>
+            store.subscribe(roomPath(roomId, `inbox/${character}`), (value) => callback(toInboxItems(value).slice(0, limit))),
+
+        onUnreadInbox: (roomId, character, callback) =>
+            store.subscribe(roomPath(roomId, `inbox/${character}`), (value) => callback(toInboxItems(value).filter(item => !item.read))),
+
+        markInboxRead: async (roomId, character, itemIds) => {
+            const updates: { [path: string]: any } = {};
+            itemIds.forEach(id => { updates[roomPath(roomId, `inbox/${character}/${id}/read`)] = true; });
+            store.update(updates);
+        },
+
+        onDailyStats: (roomId, date, callback) =>
+            store.subscribe(roomPath(roomId, `dailyStats/${date}`), (value) => callback(value || {})),
+
+        onDailyStatsRange: (roomId, from, to, callback) =>
+            store.subscribe(roomPath(roomId, 'dailyStats'), (value) => {
+                const inRange: DailyStatsByDate = {};
+                Object.keys(value || {}).filter(date => date >= from && date <= to).forEach(date => {
+                    inRange[date] = value[date];
+                });
+                callback(inRange);
+            }),
+
+        onGoals: (roomId, callback) =>
+            store.subscribe(roomPath(roomId, 'goals'), (value) => callback(value || {})),
+
+        setGoal: async (roomId, owner, minutes) => {
+            store.update({ [roomPath(roomId, `goals/${owner}`)]: minutes });
+        },
+
+        onTasks: (roomId, character, callback) =>
+            store.subscribe(roomPath(roomId, `tasks/${character}`), (value) => callback(toTasks(value))),
+
+        addTask: async (roomId, character, text) => {
+            store.update({ [roomPath(roomId, `tasks/${character}/${randomId()}`)]: { text, done: false, createdAt: Date.now() } });
+        },
+
+        setTaskDone: async (roomId, character, taskId, done) => {
+            store.update({ [roomPath(roomId, `tasks/${character}/${taskId}/done`)]: done });
+        },
+
+        removeTask: async (roomId, character, taskId) => {
+            store.update({ [roomPath(roomId, `tasks/${character}/${taskId}`)]: null });
+        },
+
+        onProfiles: (roomId, callback) =>
+            store.subscribe(roomPath(roomId, 'profiles'), (value) => callback(toProfiles(value))),
+
+        updateProfile: async (roomId, character, profile) => {
+            store.update({ [roomPath(roomId, `profiles/${character}`)]: profile });
+        },
+
+        onSubjects: (roomId, callback) =>
+            store.subscribe(roomPath(roomId, 'subjects'), (value) => callback(toSubjects(value))),
+
+        addSubject: async (roomId, subject) => {
+            const subjectId = randomId();
+            store.update({ [roomPath(roomId, `subjects/${subjectId}`)]: subject });
+            return subjectId;
+        },
+
+        removeSubject: async (roomId, subjectId) => {
+            store.update({ [roomPath(roomId, `subjects/${subjectId}`)]: null });
+        },
+
+        onStudyDates: (roomId, callback) =>
+            store.subscribe(roomPath(roomId, 'studyDates'), (value) => callback(toStudyDates(value))),
+
+        proposeStudyDate: async (roomId, date) => {
+            const dateId = randomId();
+            store.update({ [roomPath(roomId, `studyDates/${dateId}`)]: { ...date, status: 'pending', createdAt: Date.now() } });
+            return dateId;
+        },
+
+        setStudyDateStatus: async (roomId, dateId, status) => {
+            store.update({ [roomPath(roomId, `studyDates/${dateId}/status`)]: status });
+        },
+
+        onSessionHistory: (roomId, character, limit, callback) =>
+            store.subscribe(roomPath(roomId, `sessions/${character}`), (value) => callback(toSessionRecords(value).slice(0, limit))),
+    };
+};
+
+const openBlobDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error('Voice notes need IndexedDB, which this browser does not offer.'));
+        return;
+    }
+    const request = indexedDB.open(BLOB_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(BLOB_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runBlobRequest = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    openBlobDatabase().then(db => new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(BLOB_STORE_NAME, mode).objectStore(BLOB_STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }));
+
+/**
+ * Keeps blobs whole in IndexedDB, which every tab on the machine shares just like
+ * the local backend's tree. localStorage would run out of room after a few notes.
+ */
+export const createLocalBlobStore = (): BlobStore => ({
+    name: 'local',
+
+    upload: async (roomId, blob, onProgress) => {
+        const blobId = randomId();
+        await runBlobRequest('readwrite', store => store.put(blob, `${roomId}/${blobId}`));
+        onProgress?.(1);
+        return blobId;
+    },
+
+    download: async (roomId, blobId) => {
+        const blob = await runBlobRequest<Blob | undefined>('readonly', store => store.get(`${roomId}/${blobId}`));
+        if (!blob) throw new Error('This voice note is no longer available.');
+        return blob;
+    },
+});
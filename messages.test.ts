@@ -0,0 +1,29 @@
+// messages.test.ts
+import { describe, expect, it } from 'vitest';
+import { Character } from './types';
+import { createMessage, parseMessage } from './messages';
+
+// What the database hands back: null fields are not stored at all.
+const roundTrip = (value: unknown) => JSON.parse(JSON.stringify(value, (_, field) => (field === null ? undefined : field)));
+
+describe('parseMessage', () => {
+    it('accepts a study date invite without a topic after a round trip', () => {
+        const sent = createMessage(Character.Flynn, { type: 'study-date', dateId: 'd1', startTime: 1000, plannedMinutes: 60, topic: null });
+        expect(parseMessage(sent)).toBe(sent);
+        expect(parseMessage(roundTrip(sent))).toEqual(sent);
+    });
+
+    it('keeps the topic of a study date invite', () => {
+        const sent = createMessage(Character.Rapunzel, { type: 'study-date', dateId: 'd1', startTime: 1000, plannedMinutes: 45, topic: 'Biology' });
+        expect(parseMessage(roundTrip(sent))).toEqual(sent);
+    });
+
+    it('rejects an empty topic and unknown types', () => {
+        expect(parseMessage({ v: 1, from: Character.Flynn, type: 'study-date', dateId: 'd1', startTime: 1000, plannedMinutes: 45, topic: '  ' })).toBeNull();
+        expect(parseMessage({ v: 1, from: Character.Flynn, type: 'unknown' })).toBeNull();
+    });
+
+    it('upgrades messages from before the protocol had a version', () => {
+        expect(parseMessage({ type: 'HUGS', from: Character.Flynn })).toEqual({ v: 1, from: Character.Flynn, type: 'reaction', reaction: 'hugs' });
+    });
+});
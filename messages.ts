@@ -0,0 +1,64 @@
+// messages.ts
+import { Character, MessageDraft, MessageType, PartnerMessage, Reaction } from './types';
+
+export const MESSAGE_PROTOCOL_VERSION = 1;
+const MAX_TEXT_LENGTH = 2000;
+
+export const REACTIONS: Reaction[] = ['heart', 'kisses', 'hugs'];
+
+const isText = (value: any) => typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_TEXT_LENGTH;
+
+const isVoiceNote = (note: any) => !!note && typeof note.blobId === 'string' &&
+    [note.durationSeconds, note.size].every(value => typeof value === 'number' && value >= 0) &&
+    typeof note.mimeType === 'string';
+
+// Checks the payload of each message type. A new type is added here and in MESSAGE_RENDERERS.
+const PAYLOAD_VALIDATORS: { [T in MessageType]: (message: any) => boolean } = {
+    'greeting': message => isText(message.text),
+    'praise': message => isText(message.text),
+    'reaction': message => REACTIONS.includes(message.reaction),
+    'voice': message => isVoiceNote(message.note),
+    'nudge': () => true,
+    'session-invite': () => true,
+    'text': message => isText(message.text),
+    'study-date': message => typeof message.dateId === 'string' && typeof message.startTime === 'number' &&
+        typeof message.plannedMinutes === 'number' && message.plannedMinutes > 0 &&
+        (message.topic == null || isText(message.topic)),
+};
+
+// The database drops null fields, so a field that may be null can come back missing.
+const restoreNulls = (message: any): any =>
+    message.type === 'study-date' && message.topic === undefined ? { ...message, topic: null } : message;
+
+// Messages from before the protocol had a version: separate reward and greeting shapes.
+const upgradeUnversioned = (data: any): any => {
+    const base = { v: 1, from: data.from };
+    switch (data.type) {
+        case 'GREETING': return { ...base, type: 'greeting', text: data.content };
+        case 'KISSES': return { ...base, type: 'reaction', reaction: 'kisses' };
+        case 'HUGS': return { ...base, type: 'reaction', reaction: 'hugs' };
+        case 'HEART': return { ...base, type: 'reaction', reaction: 'heart' };
+        case 'PRAISE':
+            if (data.voiceNote) return { ...base, type: 'voice', note: data.voiceNote };
+            return { ...base, type: 'praise', text: data.message };
+        default: return null;
+    }
+};
+
+/**
+ * Turns anything read from the database into a message, or null when it is not
+ * one we can show. Newer protocol versions are accepted as long as the type is
+ * known and its payload checks out, so senders can add fields without breaking
+ * older clients.
+ */
+export const parseMessage = (data: unknown): PartnerMessage | null => {
+    if (!data || typeof data !== 'object') return null;
+    const message = (data as any).v === undefined ? upgradeUnversioned(data) : data;
+    if (!message || typeof message.v !== 'number' || message.v < 1) return null;
+    if (!Object.values(Character).includes(message.from)) return null;
+    const validate = PAYLOAD_VALIDATORS[message.type as MessageType];
+    return validate && validate(message) ? restoreNulls(message) as PartnerMessage : null;
+};
+
+export const createMessage = (from: Character, draft: MessageDraft): PartnerMessage =>
+    ({ ...draft, v: MESSAGE_PROTOCOL_VERSION, from }) as PartnerMessage;
@@ -0,0 +1,78 @@
+// notifications.ts
+import { registerServiceWorker } from './pwa';
+
+const SETTINGS_STORAGE_KEY = 'politos.notificationSettings';
+
+export type NotificationKind = 'partnerOnline' | 'partnerStarted' | 'reward' | 'greeting' | 'interval' | 'goal';
+
+export type NotificationSettings = Record<NotificationKind, boolean>;
+
+export const NOTIFICATION_LABELS: Record<NotificationKind, string> = {
+    partnerOnline: 'Your polito comes online',
+    partnerStarted: 'Your polito starts or joins a session',
+    reward: 'Rewards',
+    greeting: 'Greetings and messages',
+    interval: 'Pomodoro breaks and work phases',
+    goal: 'Daily goals reached',
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+    partnerOnline: true,
+    partnerStarted: true,
+    reward: true,
+    greeting: true,
+    interval: true,
+    goal: true,
+};
+
+export const loadNotificationSettings = (): NotificationSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+        return { ...DEFAULT_NOTIFICATION_SETTINGS, ...(saved && typeof saved === 'object' ? saved : {}) };
+    } catch (error) {
+        console.error("Could not read the notification settings:", error);
+        return DEFAULT_NOTIFICATION_SETTINGS;
+    }
+};
+
+export const saveNotificationSettings = (settings: NotificationSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Could not save the notification settings:", error);
+    }
+};
+
+export const areNotificationsSupported = () =>
+    typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+    areNotificationsSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+    if (!areNotificationsSupported()) return 'unsupported';
+    await registerServiceWorker();
+    return Notification.requestPermission();
+};
+
+/**
+ * Raises a system notification while the app is out of sight. In-page overlays
+ * already cover a visible app, so nothing is shown twice. A `tag` replaces an
+ * earlier notification of the same tag instead of stacking another.
+ */
+export const showSystemNotification = async (
+    settings: NotificationSettings,
+    kind: NotificationKind,
+    title: string,
+    body: string,
+    tag: string = kind,
+) => {
+    if (!settings[kind] || getNotificationPermission() !== 'granted' || document.visibilityState === 'visible') return;
+    try {
+        const worker = await registerServiceWorker();
+        if (!worker) return;
+        await worker.showNotification(title, { body, tag, data: { url: window.location.href } });
+    } catch (error) {
+        console.error("Could not show a notification:", error);
+    }
+};
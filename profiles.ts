@@ -0,0 +1,36 @@
+// profiles.ts
+import { CHARACTER_DATA, IMAGES } from './constants';
+import { Character, Profile, ProfileAvatar, Profiles } from './types';
+
+export const MAX_DISPLAY_NAME_LENGTH = 24;
+export const MAX_PROFILE_STATUS_LENGTH = 60;
+
+export const PROFILE_EMOJIS = ['💛', '❤️', '💖', '💜', '💙', '💚', '🧡', '🌸', '⭐', '🌙', '🦋', '☀️'];
+
+// Avatars are crops of the pixel portraits: the picture and the part of it to show.
+export const PROFILE_AVATARS: Record<ProfileAvatar, { label: string; src: string; position: string }> = {
+    flynn: { label: 'Flynn', src: IMAGES.ONBOARDING_PORTRAITS, position: '0% 40%' },
+    rapunzel: { label: 'Rapunzel', src: IMAGES.ONBOARDING_PORTRAITS, position: '100% 40%' },
+    together: { label: 'Together', src: IMAGES.IDLE, position: '50% 60%' },
+};
+
+export const getDefaultProfile = (character: Character): Profile => ({
+    displayName: CHARACTER_DATA[character].name,
+    emoji: '💛',
+    avatar: character === Character.Flynn ? 'flynn' : 'rapunzel',
+    status: '',
+});
+
+export const DEFAULT_PROFILES: Profiles = {
+    [Character.Flynn]: getDefaultProfile(Character.Flynn),
+    [Character.Rapunzel]: getDefaultProfile(Character.Rapunzel),
+};
+
+// The name as shown everywhere in the app, with the person's emoji after it.
+export const formatProfileName = (profile: Profile): string =>
+    profile.emoji ? `${profile.displayName} ${profile.emoji}` : profile.displayName;
+
+export const getDisplayNames = (profiles: Profiles): Record<Character, string> => ({
+    [Character.Flynn]: formatProfileName(profiles[Character.Flynn]),
+    [Character.Rapunzel]: formatProfileName(profiles[Character.Rapunzel]),
+});
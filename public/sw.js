@@ -0,0 +1,131 @@
+// sw.js
+// Caches the app so it installs as a PWA and opens without a network, and shows
+// the app's system notifications. Notifications are raised from the page, so
+// they work the same with or without a network.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `politos-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `politos-assets-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Scripts, styles and fonts the page loads from CDNs; without them nothing renders offline.
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com', 'www.gstatic.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// Where assets.ts points the scene images and music.
+const ASSET_HOSTS = ['raw.githubusercontent.com', 'i.ibb.co'];
+
+// The ambient sounds shipped with the app in public/sounds.
+const ASSET_PATH = '/sounds/';
+
+// Scene images and music: fetched with CORS when the host allows it, as an opaque response otherwise.
+const fetchForCache = (url) => fetch(url, { mode: 'cors' }).catch(() => fetch(url, { mode: 'no-cors' }));
+
+const precacheAssets = async (urls) => {
+    const cache = await caches.open(ASSET_CACHE);
+    for (const url of urls) {
+        if (await cache.match(url)) continue;
+        try {
+            const response = await fetchForCache(url);
+            if (response.status === 200 || response.type === 'opaque') await cache.put(url, response);
+        } catch (error) {
+            console.warn(`Could not precache ${url}:`, error);
+        }
+    }
+};
+
+// The files the page loaded on its first visit, before this worker controlled it.
+const cacheShell = async (urls) => {
+    const cache = await caches.open(SHELL_CACHE);
+    for (const url of urls) {
+        const { hostname, origin } = new URL(url);
+        if (origin !== self.location.origin && !RUNTIME_HOSTS.includes(hostname)) continue;
+        if (await cache.match(url)) continue;
+        try {
+            const response = origin === self.location.origin ? await fetch(url) : await fetchForCache(url);
+            if (response.status === 200 || response.type === 'opaque') await cache.put(url, response);
+        } catch (error) {
+            console.warn(`Could not cache ${url}:`, error);
+        }
+    }
+};
+
+// Fresh from the network when online, from the cache when not.
+const networkFirst = async (request, cacheName) => {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.status === 200 || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+        if (cached) return cached;
+        if (request.mode === 'navigate') {
+            const shell = await cache.match('/index.html') || await cache.match('/');
+            if (shell) return shell;
+        }
+        throw error;
+    }
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await Promise.all(SHELL_URLS.map(url => cache.add(url).catch(error => console.warn(`Could not cache ${url}:`, error))));
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name.startsWith('politos-') && name !== SHELL_CACHE && name !== ASSET_CACHE).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// The page sends the asset list from assets.ts, so it is kept in one place, and
+// the app files it loaded, whose built names only the page knows.
+self.addEventListener('message', (event) => {
+    if (!Array.isArray(event.data?.urls)) return;
+    if (event.data.type === 'precache') {
+        event.waitUntil(precacheAssets(event.data.urls));
+    } else if (event.data.type === 'cache-shell') {
+        event.waitUntil(cacheShell(event.data.urls));
+    }
+});
+
+// Cached first once stored, so scenes render instantly and the music plays offline.
+const cacheFirst = async (request) => {
+    const cached = await caches.match(request.url, { cacheName: ASSET_CACHE });
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.status === 200 || response.type === 'opaque') {
+        const cache = await caches.open(ASSET_CACHE);
+        cache.put(request.url, response.clone());
+    }
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    // Everything else, such as the database, goes straight to the network.
+    if (ASSET_HOSTS.includes(url.hostname) || (url.origin === self.location.origin && url.pathname.startsWith(ASSET_PATH))) {
+        event.respondWith(cacheFirst(request));
+    } else if (url.origin === self.location.origin || RUNTIME_HOSTS.includes(url.hostname)) {
+        event.respondWith(networkFirst(request, SHELL_CACHE));
+    }
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const open = windows.find(client => 'focus' in client);
+        if (open) return open.focus();
+        return self.clients.openWindow(event.notification.data?.url || '/');
+    })());
+});
@@ -0,0 +1,46 @@
+// pwa.ts
+import { AUDIO_ASSETS, IMAGE_ASSETS } from './assets';
+
+const WORKER_URL = '/sw.js';
+
+// Everything the scenes need, cached by the service worker so they render without a network.
+export const PRECACHE_URLS: string[] = [...Object.values(IMAGE_ASSETS), ...Object.values(AUDIO_ASSETS)];
+
+// Requests that fetch data rather than parts of the app.
+const DATA_INITIATORS = ['xmlhttprequest', 'fetch', 'beacon'];
+
+// Everything the page loaded before the worker took control: the built bundle and the CDN
+// scripts, styles and fonts. The worker keeps the ones that belong to the app shell.
+const getLoadedShellUrls = (): string[] => [
+    window.location.origin + '/',
+    ...(performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+        .filter(entry => !DATA_INITIATORS.includes(entry.initiatorType) && entry.name.startsWith('http'))
+        .map(entry => entry.name),
+];
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+/**
+ * Registers public/sw.js once and hands it the assets to precache, along with
+ * the app files this first load fetched before the worker was there. The worker
+ * caches the app and shows notifications; without it the app still runs, just
+ * not offline.
+ */
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+    if (!registration) {
+        registration = typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+            ? navigator.serviceWorker.register(WORKER_URL)
+                .then(async (registered) => {
+                    const ready = await navigator.serviceWorker.ready;
+                    ready.active?.postMessage({ type: 'precache', urls: PRECACHE_URLS });
+                    ready.active?.postMessage({ type: 'cache-shell', urls: getLoadedShellUrls() });
+                    return registered;
+                })
+                .catch((error: Error) => {
+                    console.error("Could not register the service worker:", error);
+                    return null;
+                })
+            : Promise.resolve(null);
+    }
+    return registration;
+};
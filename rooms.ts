@@ -0,0 +1,67 @@
+// rooms.ts
+import { backend } from './backend';
+import { Room } from './types';
+
+const ROOM_STORAGE_KEY = 'politos.room';
+
+// No 0/O or 1/I so codes can be read out over the phone without confusion.
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const PAIRING_CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+// The shortest password the auth service accepts for linking an email.
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const generatePairingCode = (): string => {
+    const values = new Uint32Array(PAIRING_CODE_LENGTH);
+    crypto.getRandomValues(values);
+    return Array.from(values, value => PAIRING_CODE_ALPHABET[value % PAIRING_CODE_ALPHABET.length]).join('');
+};
+
+export const normalizePairingCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const createRoom = async (): Promise<Room> => {
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        const pairingCode = generatePairingCode();
+        const roomId = await backend.createRoom(pairingCode);
+        if (roomId) return { roomId, pairingCode };
+    }
+    throw new Error('Could not generate a unique pairing code. Please try again.');
+};
+
+export const joinRoom = async (code: string): Promise<Room> => {
+    const pairingCode = normalizePairingCode(code);
+    if (pairingCode.length !== PAIRING_CODE_LENGTH) {
+        throw new Error(`Pairing codes are ${PAIRING_CODE_LENGTH} characters long.`);
+    }
+    const roomId = await backend.findRoomByCode(pairingCode);
+    if (!roomId) {
+        throw new Error('No room found for that code. Check it with your polito and try again.');
+    }
+    await backend.joinRoom(roomId, pairingCode);
+    return { roomId, pairingCode };
+};
+
+export const loadSavedRoom = (): Room | null => {
+    try {
+        const saved = localStorage.getItem(ROOM_STORAGE_KEY);
+        if (!saved) return null;
+        const room = JSON.parse(saved);
+        return room && typeof room.roomId === 'string' && typeof room.pairingCode === 'string' ? room : null;
+    } catch (error) {
+        console.error("Could not read the saved room:", error);
+        return null;
+    }
+};
+
+export const saveRoom = (room: Room | null) => {
+    try {
+        if (room) {
+            localStorage.setItem(ROOM_STORAGE_KEY, JSON.stringify(room));
+        } else {
+            localStorage.removeItem(ROOM_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error("Could not save the room:", error);
+    }
+};
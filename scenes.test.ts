@@ -0,0 +1,63 @@
+// scenes.test.ts
+import { describe, expect, it } from 'vitest';
+import { IMAGES } from './constants';
+import { DEFAULT_SCENE_PACK, ScenePack, findScenePack, resolveScene } from './scenes';
+import { Character, FocusState } from './types';
+
+const { Idle, Focusing, Paused } = FocusState;
+
+describe('resolveScene', () => {
+    it('shows both politos focusing only when both are', () => {
+        const scene = resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, Focusing, Focusing);
+        expect(scene.imageSrc).toBe(IMAGES.JOINT_FOCUS);
+        expect(scene.sprites).toHaveLength(3);
+    });
+
+    it('shows whoever is focusing alone, from either side', () => {
+        expect(resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, Focusing, Idle).imageSrc).toBe(IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE);
+        expect(resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, Focusing, Paused).imageSrc).toBe(IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE);
+        expect(resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, Idle, Focusing).imageSrc).toBe(IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE);
+        expect(resolveScene(DEFAULT_SCENE_PACK, Character.Rapunzel, Focusing, Idle).imageSrc).toBe(IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE);
+        expect(resolveScene(DEFAULT_SCENE_PACK, Character.Rapunzel, Paused, Focusing).imageSrc).toBe(IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE);
+    });
+
+    it('shows the idle picture while the user is off and the partner is not focusing', () => {
+        [[Idle, Idle], [Paused, Idle], [Paused, Paused]].forEach(([user, partner]) => {
+            expect(resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, user, partner).imageSrc).toBe(IMAGES.IDLE);
+        });
+        // A partner resting mid-session still shows at their desk.
+        expect(resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, Idle, Paused).imageSrc).toBe(IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE);
+    });
+
+    it('gives every pair of states a caption in every pack', () => {
+        ['classic', 'starry-night'].map(findScenePack).forEach(pack => {
+            [Idle, Focusing, Paused].forEach(user => [Idle, Focusing, Paused].forEach(partner => {
+                expect(resolveScene(pack, Character.Rapunzel, user, partner).caption).not.toBe('');
+            }));
+        });
+    });
+
+    it('falls back to the classic scene a pack leaves out, keeping the pack\'s pictures and sprites', () => {
+        const pack: ScenePack = {
+            id: 'test',
+            name: 'Test',
+            images: { idle: 'idle.png', joint: 'joint.png', soloFocus: { [Character.Flynn]: 'flynn.png', [Character.Rapunzel]: 'rapunzel.png' } },
+            ambientSprites: [{ emoji: '🌙', className: '' }],
+            scenes: { [Idle]: { [Idle]: { background: 'idle', caption: 'Own caption' } } },
+        };
+        expect(resolveScene(pack, Character.Flynn, Idle, Idle).caption).toBe('Own caption');
+
+        const fallback = resolveScene(pack, Character.Flynn, Focusing, Idle);
+        expect(fallback.caption).toBe(resolveScene(DEFAULT_SCENE_PACK, Character.Flynn, Focusing, Idle).caption);
+        expect(fallback.imageSrc).toBe('flynn.png');
+        expect(fallback.sprites[0].emoji).toBe('🌙');
+    });
+});
+
+describe('findScenePack', () => {
+    it('falls back to the default pack for an unknown or missing id', () => {
+        expect(findScenePack('starry-night').id).toBe('starry-night');
+        expect(findScenePack('gone')).toBe(DEFAULT_SCENE_PACK);
+        expect(findScenePack(null)).toBe(DEFAULT_SCENE_PACK);
+    });
+});
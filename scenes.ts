@@ -0,0 +1,156 @@
+// scenes.ts
+import { Character, FocusState } from './types';
+import { CHARACTER_DATA, IMAGES } from './constants';
+
+const PACK_STORAGE_KEY = 'politos.scenePack';
+
+// Which of a pack's pictures a scene shows: nobody, both, or just one of the two focusing.
+export type SceneBackground = 'idle' | 'joint' | 'userFocus' | 'partnerFocus';
+
+export type SceneSprite = {
+    emoji: string;
+    // Tailwind classes that place and size the sprite on the scene.
+    className: string;
+    // A CSS animation shorthand, using the keyframes in index.html.
+    animation?: string;
+    animationDelay?: string;
+    // A smaller sprite pinned to this one's top right corner.
+    badge?: SceneSprite;
+};
+
+export type Scene = {
+    background: SceneBackground;
+    caption: string;
+    sprites?: SceneSprite[];
+};
+
+export type ScenePack = {
+    id: string;
+    name: string;
+    images: {
+        idle: string;
+        joint: string;
+        // The picture of this character focusing while the other one is not.
+        soloFocus: Record<Character, string>;
+    };
+    // Shown on top of every scene in the pack.
+    ambientSprites?: SceneSprite[];
+    // Indexed by the user's focus state, then the partner's. A scene the pack leaves out is the classic one.
+    scenes: { [U in FocusState]?: { [P in FocusState]?: Scene } };
+};
+
+export type ResolvedScene = {
+    imageSrc: string;
+    caption: string;
+    sprites: SceneSprite[];
+};
+
+const brain = (delay: number): SceneSprite => ({
+    emoji: '🧠',
+    className: 'text-5xl',
+    animation: 'brain-pulse 2s infinite ease-in-out',
+    animationDelay: `${delay}s`,
+    badge: { emoji: '⚡', className: 'text-3xl', animation: 'spark-fade 1.5s infinite linear', animationDelay: `${delay + 0.2}s` },
+});
+
+const SOLO_FOCUS_SPRITES: SceneSprite[] = [
+    { ...brain(0), className: 'top-[42%] left-1/2 -translate-x-1/2 text-5xl' },
+];
+
+const JOINT_FOCUS_SPRITES: SceneSprite[] = [
+    { ...brain(0), className: 'top-[42%] left-[calc(50%-5rem)] text-5xl' },
+    { emoji: '💛', className: 'top-[43%] left-1/2 -translate-x-1/2 text-4xl text-yellow-300' },
+    { ...brain(1), className: 'top-[42%] left-[calc(50%+2rem)] text-5xl' },
+];
+
+const IDLE_HEART_SPRITES: SceneSprite[] = [
+    { emoji: '❤️', className: 'top-[48%] left-[51%] text-3xl animate-float-up' },
+    { emoji: '❤️', className: 'top-[50%] left-[49%] text-3xl animate-float-up', animationDelay: '0.8s' },
+];
+
+const CLASSIC_SCENES: Record<FocusState, Record<FocusState, Scene>> = {
+    [FocusState.Focusing]: {
+        [FocusState.Focusing]: { background: 'joint', caption: "We politos are focussing.", sprites: JOINT_FOCUS_SPRITES },
+        [FocusState.Paused]: { background: 'userFocus', caption: "Focus time. Your polito is resting and will be right back", sprites: SOLO_FOCUS_SPRITES },
+        [FocusState.Idle]: { background: 'userFocus', caption: "Focus time. Your polito will join you.", sprites: SOLO_FOCUS_SPRITES },
+    },
+    [FocusState.Paused]: {
+        [FocusState.Focusing]: { background: 'partnerFocus', caption: "Lil rests go a long way, but do return to your polito.", sprites: SOLO_FOCUS_SPRITES },
+        [FocusState.Paused]: { background: 'idle', caption: "Rest politos, lil rests go a long way" },
+        [FocusState.Idle]: { background: 'idle', caption: "You are on a break." },
+    },
+    [FocusState.Idle]: {
+        [FocusState.Focusing]: { background: 'partnerFocus', caption: "Your polito is focussing.", sprites: SOLO_FOCUS_SPRITES },
+        [FocusState.Paused]: { background: 'partnerFocus', caption: "Your polito is on a well deserved rest." },
+        [FocusState.Idle]: { background: 'idle', caption: "Ready for today, Politos?", sprites: IDLE_HEART_SPRITES },
+    },
+};
+
+const CLASSIC_IMAGES: ScenePack['images'] = {
+    idle: IMAGES.IDLE,
+    joint: IMAGES.JOINT_FOCUS,
+    soloFocus: {
+        [Character.Flynn]: IMAGES.FLYNN_FOCUS_RAPUNZEL_IDLE,
+        [Character.Rapunzel]: IMAGES.RAPUNZEL_FOCUS_FLYNN_IDLE,
+    },
+};
+
+export const SCENE_PACKS: ScenePack[] = [
+    { id: 'classic', name: 'Classic', images: CLASSIC_IMAGES, scenes: CLASSIC_SCENES },
+    {
+        id: 'starry-night',
+        name: 'Starry night',
+        images: CLASSIC_IMAGES,
+        ambientSprites: [
+            { emoji: '🌙', className: 'top-[12%] right-[8%] text-5xl' },
+            { emoji: '✨', className: 'top-[20%] left-[30%] text-2xl', animation: 'spark-fade 3s infinite linear' },
+            { emoji: '✨', className: 'top-[8%] left-[62%] text-2xl', animation: 'spark-fade 3s infinite linear', animationDelay: '1.5s' },
+        ],
+        scenes: {
+            [FocusState.Idle]: {
+                [FocusState.Idle]: { background: 'idle', caption: "A quiet night for studying, Politos?", sprites: IDLE_HEART_SPRITES },
+            },
+        },
+    },
+];
+
+export const DEFAULT_SCENE_PACK = SCENE_PACKS[0];
+
+export const findScenePack = (packId: string | null): ScenePack =>
+    SCENE_PACKS.find(pack => pack.id === packId) || DEFAULT_SCENE_PACK;
+
+// Every picture a pack can show, for preloading.
+export const getPackImages = (pack: ScenePack): string[] =>
+    [pack.images.idle, pack.images.joint, ...Object.values(pack.images.soloFocus)];
+
+export const resolveScene = (pack: ScenePack, user: Character, userFocus: FocusState, partnerFocus: FocusState): ResolvedScene => {
+    const scene = pack.scenes[userFocus]?.[partnerFocus] || CLASSIC_SCENES[userFocus][partnerFocus];
+    const backgrounds: Record<SceneBackground, string> = {
+        idle: pack.images.idle,
+        joint: pack.images.joint,
+        userFocus: pack.images.soloFocus[user],
+        partnerFocus: pack.images.soloFocus[CHARACTER_DATA[user].partner],
+    };
+    return {
+        imageSrc: backgrounds[scene.background],
+        caption: scene.caption,
+        sprites: [...(pack.ambientSprites || []), ...(scene.sprites || [])],
+    };
+};
+
+export const loadScenePackId = (): string | null => {
+    try {
+        return localStorage.getItem(PACK_STORAGE_KEY);
+    } catch (error) {
+        console.error("Could not read the scene theme:", error);
+        return null;
+    }
+};
+
+export const saveScenePackId = (packId: string) => {
+    try {
+        localStorage.setItem(PACK_STORAGE_KEY, packId);
+    } catch (error) {
+        console.error("Could not save the scene theme:", error);
+    }
+};
@@ -0,0 +1,224 @@
+// schema.ts
+import { isValidTimeZone } from './dates';
+import { parseMessage } from './messages';
+import { MAX_DISPLAY_NAME_LENGTH, MAX_PROFILE_STATUS_LENGTH, PROFILE_AVATARS } from './profiles';
+import { MAX_STUDY_DATE_TOPIC_LENGTH, NewStudyDate } from './studyDates';
+import { MAX_SUBJECT_NAME_LENGTH, NewSubject } from './subjects';
+import { NewSessionRecord, SyncBackend } from './sync';
+import { Character, FocusState, IntervalSchedule, PauseInterval, Profile, RoomSettings, SessionState, StatsOwner, StudyDateStatus } from './types';
+
+/*
+ * The shape of every node the app writes, checked on the client before each
+ * write. database.rules.json enforces the same shapes and limits on the server,
+ * so a change here needs the matching change there. Voice note sizes are checked
+ * in uploadVoiceNote, before any chunk is written.
+ */
+
+export const MAX_TASK_LENGTH = 120;
+// Goals, pomodoro phases and study dates each fit in a day.
+export const MAX_PLANNED_MINUTES = 24 * 60;
+// A session is booked on the day it started, so a day can take up to two days' worth of focus.
+export const MAX_SESSION_SECONDS = 2 * 24 * 60 * 60;
+export const MAX_DEVICE_ID_LENGTH = 64;
+
+const STUDY_DATE_STATUSES: StudyDateStatus[] = ['pending', 'accepted', 'declined', 'cancelled'];
+
+const isCharacter = (value: any): value is Character => Object.values(Character).includes(value);
+
+const isStatsOwner = (value: any): value is StatsOwner => value === 'joint' || isCharacter(value);
+
+const isTimestamp = (value: any) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isCount = (value: any) => Number.isInteger(value) && value >= 0;
+
+const isDuration = (value: any) => isCount(value) && value <= MAX_SESSION_SECONDS;
+
+const isNullable = (value: any, check: (value: any) => boolean) => value === null || check(value);
+
+const isId = (value: any) => typeof value === 'string' && value.length > 0 && !/[.#$\[\]\/]/.test(value);
+
+const isBoundedText = (value: any, maxLength: number) =>
+    typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+const isPairingCode = (value: any) => typeof value === 'string' && /^[A-Z2-9]{6}$/.test(value);
+
+const isDateString = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isPause = (pause: any): pause is PauseInterval =>
+    !!pause && isTimestamp(pause.start) && isTimestamp(pause.end) && pause.end >= pause.start;
+
+const isIntervalSchedule = (schedule: any): schedule is IntervalSchedule => !!schedule &&
+    [schedule.workMinutes, schedule.shortBreakMinutes, schedule.longBreakMinutes, schedule.cyclesBeforeLongBreak]
+        .every(value => Number.isInteger(value) && value > 0 && value <= MAX_PLANNED_MINUTES) &&
+    isTimestamp(schedule.startTime);
+
+// users/{character}, apart from the heartbeat.
+export const isSessionState = (session: any): session is SessionState =>
+    !!session &&
+    Object.values(FocusState).includes(session.focusState) &&
+    [session.focusStartTime, session.totalPausedTime, session.lastPauseStartTime, session.awayMs]
+        .every(value => isNullable(value, isTimestamp)) &&
+    Array.isArray(session.pauseIntervals) && session.pauseIntervals.every(isPause) &&
+    isNullable(session.intervalSchedule, isIntervalSchedule) &&
+    isNullable(session.subjectId, isId) &&
+    isNullable(session.awayCount, isCount) &&
+    isNullable(session.ownerDeviceId, (id: any) => isBoundedText(id, MAX_DEVICE_ID_LENGTH));
+
+// sessions/{character}/{recordId}
+export const isSessionRecord = (record: any, character: Character): record is NewSessionRecord =>
+    !!record &&
+    record.character === character &&
+    isNullable(record.partner, isCharacter) &&
+    isDateString(record.date) &&
+    isTimestamp(record.startTime) && isTimestamp(record.endTime) && record.endTime >= record.startTime &&
+    Array.isArray(record.pauses) && record.pauses.every(isPause) &&
+    isDuration(record.focusSeconds) && isDuration(record.jointSeconds) &&
+    isNullable(record.subjectId, isId) &&
+    isNullable(record.awayCount, isCount) &&
+    isNullable(record.awaySeconds, isDuration) &&
+    Array.isArray(record.completedTasks) &&
+    record.completedTasks.every((task: any) => !!task && isId(task.id) && isBoundedText(task.text, MAX_TASK_LENGTH)) &&
+    (record.studyDateId === undefined || isNullable(record.studyDateId, isId)) &&
+    (record.studyDateSeconds === undefined || isDuration(record.studyDateSeconds));
+
+// profiles/{character}
+export const isProfile = (profile: any): profile is Profile =>
+    !!profile &&
+    isBoundedText(profile.displayName, MAX_DISPLAY_NAME_LENGTH) &&
+    typeof profile.emoji === 'string' && profile.emoji.length <= 16 &&
+    Object.keys(PROFILE_AVATARS).includes(profile.avatar) &&
+    typeof profile.status === 'string' && profile.status.length <= MAX_PROFILE_STATUS_LENGTH;
+
+// settings, any subset of it.
+export const isRoomSettingsUpdate = (settings: any): settings is Partial<RoomSettings> =>
+    !!settings &&
+    Object.keys(settings).every(key => key === 'dayBoundary') &&
+    (settings.dayBoundary === undefined || (
+        !!settings.dayBoundary &&
+        typeof settings.dayBoundary.timeZone === 'string' && isValidTimeZone(settings.dayBoundary.timeZone) &&
+        Number.isInteger(settings.dayBoundary.rolloverHour) &&
+        settings.dayBoundary.rolloverHour >= 0 && settings.dayBoundary.rolloverHour < 24
+    ));
+
+// goals/{owner}, where null clears the goal.
+export const isGoal = (minutes: any) =>
+    minutes === null || (Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_PLANNED_MINUTES);
+
+// subjects/{id}
+export const isNewSubject = (subject: any): subject is NewSubject =>
+    !!subject &&
+    isBoundedText(subject.name, MAX_SUBJECT_NAME_LENGTH) &&
+    typeof subject.emoji === 'string' && subject.emoji.length <= 16 &&
+    typeof subject.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(subject.color);
+
+// studyDates/{id}, as proposed.
+export const isNewStudyDate = (date: any): date is NewStudyDate =>
+    !!date &&
+    isCharacter(date.proposedBy) &&
+    isTimestamp(date.startTime) &&
+    Number.isInteger(date.plannedMinutes) && date.plannedMinutes > 0 && date.plannedMinutes <= MAX_PLANNED_MINUTES &&
+    isNullable(date.topic, (topic: any) => isBoundedText(topic, MAX_STUDY_DATE_TOPIC_LENGTH));
+
+const SCHEMA_ERROR_CODE = 'SCHEMA_VIOLATION';
+
+const check = (isValid: boolean, what: string) => {
+    if (!isValid) throw Object.assign(new Error(`Refusing to write an invalid ${what}.`), { code: SCHEMA_ERROR_CODE });
+};
+
+// A write the schema or the database rules turn down fails the same way on every retry.
+export const isRejectedWrite = (error: any): boolean =>
+    error?.code === SCHEMA_ERROR_CODE || error?.code === 'PERMISSION_DENIED' || /PERMISSION_DENIED/.test(error?.message || '');
+
+/**
+ * Wraps a backend so every write is checked against the schema first. A write
+ * that does not fit is rejected before it reaches the database, with the same
+ * kind of error a failed write would give.
+ */
+export const withSchemaValidation = (backend: SyncBackend): SyncBackend => ({
+    ...backend,
+
+    createRoom: async (pairingCode) => {
+        check(isPairingCode(pairingCode), 'pairing code');
+        return backend.createRoom(pairingCode);
+    },
+
+    joinRoom: async (roomId, pairingCode) => {
+        check(isId(roomId) && isPairingCode(pairingCode), 'room membership');
+        return backend.joinRoom(roomId, pairingCode);
+    },
+
+    updateRoomSettings: async (roomId, settings) => {
+        check(isRoomSettingsUpdate(settings), 'room setting');
+        return backend.updateRoomSettings(roomId, settings);
+    },
+
+    connectPresence: (roomId, character, deviceId) => {
+        check(isCharacter(character) && isBoundedText(deviceId, MAX_DEVICE_ID_LENGTH), 'connection');
+        return backend.connectPresence(roomId, character, deviceId);
+    },
+
+    updateProfile: async (roomId, character, profile) => {
+        check(isCharacter(character) && isProfile(profile), 'profile');
+        return backend.updateProfile(roomId, character, profile);
+    },
+
+    claimCharacter: async (roomId, character, uid, takeOver) => {
+        check(isCharacter(character) && isId(uid), 'character claim');
+        return backend.claimCharacter(roomId, character, uid, takeOver);
+    },
+
+    writeSession: async (roomId, character, session) => {
+        check(isCharacter(character) && isSessionState(session), 'session state');
+        return backend.writeSession(roomId, character, session);
+    },
+
+    endSession: async (roomId, character, recordId, record, resetStatus) => {
+        check(isId(recordId) && isSessionRecord(record, character), 'session record');
+        return backend.endSession(roomId, character, recordId, record, resetStatus);
+    },
+
+    sendHeartbeat: async (roomId, character, at) => {
+        check(isCharacter(character) && isTimestamp(at), 'heartbeat');
+        return backend.sendHeartbeat(roomId, character, at);
+    },
+
+    sendMessage: async (roomId, recipient, message) => {
+        check(isCharacter(recipient) && parseMessage(message) === message, 'message');
+        return backend.sendMessage(roomId, recipient, message);
+    },
+
+    markInboxRead: async (roomId, character, itemIds) => {
+        check(isCharacter(character) && itemIds.every(isId), 'inbox update');
+        return backend.markInboxRead(roomId, character, itemIds);
+    },
+
+    setGoal: async (roomId, owner, minutes) => {
+        check(isStatsOwner(owner) && isGoal(minutes), 'goal');
+        return backend.setGoal(roomId, owner, minutes);
+    },
+
+    addTask: async (roomId, character, text) => {
+        check(isCharacter(character) && isBoundedText(text, MAX_TASK_LENGTH), 'task');
+        return backend.addTask(roomId, character, text);
+    },
+
+    setTaskDone: async (roomId, character, taskId, done) => {
+        check(isCharacter(character) && isId(taskId) && typeof done === 'boolean', 'task update');
+        return backend.setTaskDone(roomId, character, taskId, done);
+    },
+
+    addSubject: async (roomId, subject) => {
+        check(isNewSubject(subject), 'subject');
+        return backend.addSubject(roomId, subject);
+    },
+
+    proposeStudyDate: async (roomId, date) => {
+        check(isNewStudyDate(date), 'study date');
+        return backend.proposeStudyDate(roomId, date);
+    },
+
+    setStudyDateStatus: async (roomId, dateId, status) => {
+        check(isId(dateId) && STUDY_DATE_STATUSES.includes(status), 'study date status');
+        return backend.setStudyDateStatus(roomId, dateId, status);
+    },
+});
@@ -0,0 +1,28 @@
+// session.test.ts
+import { describe, expect, it } from 'vitest';
+import { computeSessionTotals, getElapsedSeconds, pauseSession, resumeSession, startSession } from './session';
+import { FocusState } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const START = Date.parse('2024-06-01T10:00:00Z');
+
+describe('resumeSession', () => {
+    it('books the pause from its start to the resume', () => {
+        const paused = pauseSession(startSession(null, START), START + 10 * MINUTE_MS);
+        const resumed = resumeSession(paused, START + 15 * MINUTE_MS);
+        expect(resumed.focusState).toBe(FocusState.Focusing);
+        expect(resumed.totalPausedTime).toBe(5 * MINUTE_MS);
+        expect(resumed.pauseIntervals).toEqual([{ start: START + 10 * MINUTE_MS, end: START + 15 * MINUTE_MS }]);
+    });
+
+    it('books an empty pause when a corrected clock puts the resume before the pause', () => {
+        const pausedAt = START + 10 * MINUTE_MS;
+        const paused = pauseSession(startSession(null, START), pausedAt);
+        // The offset moved back two seconds between the pause and the resume.
+        const resumed = resumeSession(paused, pausedAt - 2000);
+        expect(resumed.totalPausedTime).toBe(0);
+        expect(resumed.pauseIntervals).toEqual([{ start: pausedAt, end: pausedAt }]);
+        expect(getElapsedSeconds(resumed, START + 20 * MINUTE_MS)).toBe(20 * 60);
+        expect(computeSessionTotals(resumed, null, START + 20 * MINUTE_MS).focusSeconds).toBe(20 * 60);
+    });
+});
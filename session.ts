@@ -0,0 +1,183 @@
+// session.ts
+import { FocusState, IntervalSchedule, IntervalSettings, PauseInterval, SessionState, UserStatus } from './types';
+
+const GRACE_STORAGE_KEY = 'politos.resumeGraceMinutes';
+const MINUTE_MS = 60 * 1000;
+
+type SessionTiming = Pick<SessionState, 'focusState' | 'focusStartTime' | 'totalPausedTime' | 'lastPauseStartTime'>;
+
+export const isInSession = (focus: FocusState) => focus === FocusState.Focusing || focus === FocusState.Paused;
+
+// Time paused so far, counting a pause that is still running up to `now`.
+export const getPausedMs = (timing: SessionTiming, now: number): number => {
+    let pausedMs = timing.totalPausedTime || 0;
+    if (timing.focusState === FocusState.Paused && timing.lastPauseStartTime) {
+        pausedMs += now - timing.lastPauseStartTime;
+    }
+    return pausedMs;
+};
+
+export const getElapsedSeconds = (timing: SessionTiming, now: number): number => {
+    if (!timing.focusStartTime) return 0;
+    const elapsedMs = now - timing.focusStartTime - getPausedMs(timing, now);
+    return elapsedMs > 0 ? Math.floor(elapsedMs / 1000) : 0;
+};
+
+export type SessionTotals = {
+    focusSeconds: number;
+    jointSeconds: number;
+    // Every pause of the session, including one still running at `now`.
+    pauses: PauseInterval[];
+};
+
+/**
+ * What a session is worth when it ends at `now`. Joint time runs from the later
+ * of the two pause-adjusted starts, as long as the partner is still in a session.
+ */
+export const computeSessionTotals = (user: SessionState, partner: SessionTiming | null, now: number): SessionTotals => {
+    const pauses = [...user.pauseIntervals];
+    if (user.focusState === FocusState.Paused && user.lastPauseStartTime) {
+        pauses.push({ start: user.lastPauseStartTime, end: now });
+    }
+    const focusSeconds = getElapsedSeconds(user, now);
+
+    let jointSeconds = 0;
+    if (user.focusStartTime && partner && isInSession(partner.focusState) && partner.focusStartTime) {
+        const userEffectiveStart = user.focusStartTime + getPausedMs(user, now);
+        const partnerEffectiveStart = partner.focusStartTime + getPausedMs(partner, now);
+        const jointMs = now - Math.max(userEffectiveStart, partnerEffectiveStart);
+        jointSeconds = jointMs > 0 ? Math.floor(jointMs / 1000) : 0;
+    }
+
+    return { focusSeconds, jointSeconds, pauses };
+};
+
+// --- Session actions ---
+// Each action returns the whole session state after it, so the result can be
+// journaled on the device and written later without depending on server values.
+
+export const IDLE_SESSION: SessionState = {
+    focusState: FocusState.Idle,
+    focusStartTime: null,
+    totalPausedTime: null,
+    lastPauseStartTime: null,
+    pauseIntervals: [],
+    intervalSchedule: null,
+    subjectId: null,
+    awayCount: null,
+    awayMs: null,
+    ownerDeviceId: null,
+};
+
+// Settings without a start time are anchored to the moment the session starts.
+// With `tracksDistractions` the session counts time away from the app from the start, see distractions.ts.
+export const startSession = (
+    interval: IntervalSettings | IntervalSchedule | null,
+    now: number,
+    subjectId: string | null = null,
+    tracksDistractions = false,
+    ownerDeviceId: string | null = null,
+): SessionState => ({
+    focusState: FocusState.Focusing,
+    focusStartTime: now,
+    totalPausedTime: 0,
+    lastPauseStartTime: null,
+    pauseIntervals: [],
+    intervalSchedule: interval ? { startTime: now, ...interval } : null,
+    subjectId,
+    awayCount: tracksDistractions ? 0 : null,
+    awayMs: tracksDistractions ? 0 : null,
+    ownerDeviceId,
+});
+
+export const pauseSession = (session: SessionState, now: number): SessionState => ({
+    ...session,
+    focusState: FocusState.Paused,
+    lastPauseStartTime: now,
+});
+
+export const resumeSession = (session: SessionState, now: number): SessionState => {
+    if (session.focusState !== FocusState.Paused || !session.lastPauseStartTime) return session;
+    // A corrected clock offset can put `now` a moment before the pause began.
+    const end = Math.max(now, session.lastPauseStartTime);
+    return {
+        ...session,
+        focusState: FocusState.Focusing,
+        totalPausedTime: (session.totalPausedTime || 0) + (end - session.lastPauseStartTime),
+        lastPauseStartTime: null,
+        pauseIntervals: [...session.pauseIntervals, { start: session.lastPauseStartTime, end }],
+    };
+};
+
+export const recordDistraction = (session: SessionState, awayMs: number): SessionState => ({
+    ...session,
+    awayCount: (session.awayCount || 0) + 1,
+    awayMs: (session.awayMs || 0) + awayMs,
+});
+
+// Moves the session to another of the person's devices, which then runs it.
+export const handOverSession = (session: SessionState, deviceId: string): SessionState => ({
+    ...session,
+    ownerDeviceId: deviceId,
+});
+
+export const toSessionState = ({ isOnline, onlineDeviceIds, lastHeartbeat, ...session }: UserStatus): SessionState => session;
+
+// Sessions from before owner devices existed have none, and any device may act on them.
+export const isSessionOwner = (session: SessionState, deviceId: string): boolean =>
+    !isInSession(session.focusState) || !session.ownerDeviceId || session.ownerDeviceId === deviceId;
+
+// --- Devices ---
+const DEVICE_ID_STORAGE_KEY = 'politos.deviceId';
+
+let deviceId: string | null = null;
+
+// Tells this browser's connections apart from the person's other devices. Kept across reloads.
+export const getDeviceId = (storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null): string => {
+    if (deviceId) return deviceId;
+    try {
+        deviceId = storage?.getItem(DEVICE_ID_STORAGE_KEY) || null;
+    } catch (error) {
+        console.error("Could not read the device id:", error);
+    }
+    if (!deviceId) {
+        deviceId = `device-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+        try {
+            storage?.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+        } catch (error) {
+            console.error("Could not save the device id:", error);
+        }
+    }
+    return deviceId;
+};
+
+// --- Heartbeat and grace window ---
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const DEFAULT_RESUME_GRACE_MINUTES = 10;
+export const RESUME_GRACE_OPTIONS = [2, 5, 10, 15, 30, 60];
+
+// When a session left behind stopped: its last heartbeat, or its latest action if it never sent one.
+export const getLastAliveTime = (status: UserStatus): number =>
+    Math.max(status.lastHeartbeat || 0, status.lastPauseStartTime || 0, status.focusStartTime || 0);
+
+export const isWithinGrace = (lastAlive: number, now: number, graceMinutes: number) =>
+    now - lastAlive <= graceMinutes * MINUTE_MS;
+
+export const loadResumeGraceMinutes = (): number => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(GRACE_STORAGE_KEY) || 'null');
+        return typeof saved === 'number' && saved > 0 ? saved : DEFAULT_RESUME_GRACE_MINUTES;
+    } catch (error) {
+        console.error("Could not read the resume grace window:", error);
+        return DEFAULT_RESUME_GRACE_MINUTES;
+    }
+};
+
+export const saveResumeGraceMinutes = (minutes: number) => {
+    try {
+        localStorage.setItem(GRACE_STORAGE_KEY, JSON.stringify(minutes));
+    } catch (error) {
+        console.error("Could not save the resume grace window:", error);
+    }
+};
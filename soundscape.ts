@@ -0,0 +1,69 @@
+// soundscape.ts
+import { AUDIO } from './constants';
+import { FocusState } from './types';
+
+const STORAGE_KEY = 'politos.soundscape';
+
+export type SoundLayerId = 'music' | 'rain' | 'fireplace' | 'cafe';
+
+export type SoundLayer = {
+    id: SoundLayerId;
+    label: string;
+    emoji: string;
+    src: string;
+};
+
+export const SOUND_LAYERS: SoundLayer[] = [
+    { id: 'music', label: 'Music', emoji: '🎵', src: AUDIO.BACKGROUND_MUSIC },
+    { id: 'rain', label: 'Rain', emoji: '🌧️', src: AUDIO.RAIN },
+    { id: 'fireplace', label: 'Fireplace', emoji: '🔥', src: AUDIO.FIREPLACE },
+    { id: 'cafe', label: 'Café', emoji: '☕', src: AUDIO.CAFE },
+];
+
+// Volume per layer, from 0 (silent) to 1.
+export type SoundMix = Record<SoundLayerId, number>;
+
+export type SoundPreset = 'focus' | 'break';
+
+export type Soundscape = Record<SoundPreset, SoundMix>;
+
+export const SOUND_PRESET_LABELS: Record<SoundPreset, string> = {
+    focus: 'Focus',
+    break: 'Break',
+};
+
+// The music alone at its old fixed volume, so nothing changes until the mix is touched.
+export const DEFAULT_SOUNDSCAPE: Soundscape = {
+    focus: { music: 0.3, rain: 0, fireplace: 0, cafe: 0 },
+    break: { music: 0.3, rain: 0, fireplace: 0, cafe: 0 },
+};
+
+// Focusing plays the focus mix; idle and paused play the break mix.
+export const getActivePreset = (focusState: FocusState): SoundPreset =>
+    focusState === FocusState.Focusing ? 'focus' : 'break';
+
+const toVolume = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+export const loadSoundscape = (): Soundscape => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') || {};
+        const toMix = (preset: SoundPreset): SoundMix => {
+            const mix = { ...DEFAULT_SOUNDSCAPE[preset] };
+            SOUND_LAYERS.forEach(({ id }) => { mix[id] = toVolume(saved[preset]?.[id], mix[id]); });
+            return mix;
+        };
+        return { focus: toMix('focus'), break: toMix('break') };
+    } catch (error) {
+        console.error("Could not read the sound mix:", error);
+        return DEFAULT_SOUNDSCAPE;
+    }
+};
+
+export const saveSoundscape = (soundscape: Soundscape) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(soundscape));
+    } catch (error) {
+        console.error("Could not save the sound mix:", error);
+    }
+};
@@ -0,0 +1,56 @@
+// stats.ts
+import { Character, DailyStatsByDate, StatsOwner } from './types';
+import { listDates } from './dates';
+
+export type RangeSummary = {
+    dates: string[];
+    // Seconds per owner for every date in the range, zero-filled.
+    perDay: Record<string, Partial<Record<StatsOwner, number>>>;
+    totals: Partial<Record<StatsOwner, number>>;
+    dailyAverages: Partial<Record<StatsOwner, number>>;
+};
+
+export const summarizeRange = (stats: DailyStatsByDate, from: string, to: string, owners: StatsOwner[]): RangeSummary => {
+    const dates = listDates(from, to);
+    const perDay: RangeSummary['perDay'] = {};
+    const totals: RangeSummary['totals'] = {};
+    const dailyAverages: RangeSummary['dailyAverages'] = {};
+
+    owners.forEach(owner => { totals[owner] = 0; });
+    dates.forEach(date => {
+        perDay[date] = {};
+        owners.forEach(owner => {
+            const seconds = stats[date]?.[owner]?.totalFocusTime || 0;
+            perDay[date][owner] = seconds;
+            totals[owner] = (totals[owner] || 0) + seconds;
+        });
+    });
+    owners.forEach(owner => {
+        dailyAverages[owner] = dates.length > 0 ? (totals[owner] || 0) / dates.length : 0;
+    });
+
+    return { dates, perDay, totals, dailyAverages };
+};
+
+// Focus seconds by subject id; time started without a subject is under null.
+export type SubjectBreakdown = Array<{ subjectId: string | null; seconds: number }>;
+
+export const summarizeSubjects = (stats: DailyStatsByDate, from: string, to: string, owner: Character): SubjectBreakdown => {
+    const seconds = new Map<string | null, number>();
+    const add = (subjectId: string | null, value: number) => {
+        if (value > 0) seconds.set(subjectId, (seconds.get(subjectId) || 0) + value);
+    };
+    listDates(from, to).forEach(date => {
+        const ownerStats = stats[date]?.[owner];
+        if (!ownerStats) return;
+        const subjects = ownerStats.subjects || {};
+        let tagged = 0;
+        Object.keys(subjects).forEach(subjectId => {
+            add(subjectId, subjects[subjectId]);
+            tagged += subjects[subjectId];
+        });
+        add(null, (ownerStats.totalFocusTime || 0) - tagged);
+    });
+    return Array.from(seconds, ([subjectId, value]) => ({ subjectId, seconds: value }))
+        .sort((a, b) => b.seconds - a.seconds);
+};
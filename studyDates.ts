@@ -0,0 +1,63 @@
+// studyDates.ts
+import { Character, StudyDate } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+export const STUDY_DATE_LENGTH_OPTIONS = [30, 45, 60, 90, 120, 180];
+export const DEFAULT_STUDY_DATE_MINUTES = 60;
+export const MAX_STUDY_DATE_TOPIC_LENGTH = 80;
+
+// How many minutes before a date starts the prompt to begin already shows.
+export const STUDY_DATE_PROMPT_LEAD_MINUTES = 5;
+
+export type NewStudyDate = Omit<StudyDate, 'id' | 'status' | 'jointSeconds'>;
+
+export const getSlotEnd = (date: StudyDate): number => date.startTime + date.plannedMinutes * MINUTE_MS;
+
+// Dates still worth showing: not turned down and not over yet. Soonest first.
+export const getUpcomingDates = (dates: StudyDate[], now: number): StudyDate[] =>
+    dates
+        .filter(date => (date.status === 'pending' || date.status === 'accepted') && getSlotEnd(date) > now)
+        .sort((a, b) => a.startTime - b.startTime);
+
+// The accepted date both partners should be starting now, if any.
+export const getDueDate = (dates: StudyDate[], now: number): StudyDate | null =>
+    dates.find(date => date.status === 'accepted'
+        && now >= date.startTime - STUDY_DATE_PROMPT_LEAD_MINUTES * MINUTE_MS
+        && now < getSlotEnd(date)) || null;
+
+/**
+ * The accepted date a stretch of joint time overlaps the most, and how many of
+ * its seconds fell inside that date's slot. Joint time outside the slot still
+ * counts on the daily stats, just not against the date.
+ */
+export const matchJointTime = (dates: StudyDate[], jointStart: number, jointEnd: number): { date: StudyDate; seconds: number } | null => {
+    let best: { date: StudyDate; seconds: number } | null = null;
+    dates.filter(date => date.status === 'accepted').forEach(date => {
+        const overlapMs = Math.min(jointEnd, getSlotEnd(date)) - Math.max(jointStart, date.startTime);
+        const seconds = Math.floor(overlapMs / 1000);
+        if (seconds > 0 && (!best || seconds > best.seconds)) best = { date, seconds };
+    });
+    return best;
+};
+
+// Both partners book the joint time they shared, so it is counted once: whoever saw more of it.
+export const getDateJointSeconds = (date: StudyDate): number =>
+    Math.max(0, ...Object.values(date.jointSeconds));
+
+export const getDateRespondent = (date: StudyDate): Character =>
+    date.proposedBy === Character.Flynn ? Character.Rapunzel : Character.Flynn;
+
+export const formatCountdown = (ms: number): string => {
+    if (ms <= 0) return 'now';
+    const totalMinutes = Math.ceil(ms / MINUTE_MS);
+    const days = Math.floor(totalMinutes / (24 * 60));
+    const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+    const minutes = totalMinutes % 60;
+    if (days > 0) return `in ${days}d ${hours}h`;
+    if (hours > 0) return `in ${hours}h ${minutes}m`;
+    return `in ${minutes}m`;
+};
+
+export const formatDateTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,35 @@
+// subjects.ts
+import { Subject } from './types';
+
+const LAST_SUBJECT_STORAGE_KEY = 'politos.lastSubjectId';
+
+export const MAX_SUBJECT_NAME_LENGTH = 30;
+
+export const SUBJECT_EMOJIS = ['📚', '🧮', '🧪', '🧬', '💻', '🌍', '📜', '🎨', '🎵', '⚖️', '🩺', '✍️'];
+
+// Bar and tag colours; they stay readable on the brown panels and the scenes.
+export const SUBJECT_COLORS = ['#facc15', '#f472b6', '#60a5fa', '#4ade80', '#fb923c', '#a78bfa', '#2dd4bf', '#f87171'];
+
+export type NewSubject = Omit<Subject, 'id'>;
+
+export const findSubject = (subjects: Subject[], subjectId: string | null): Subject | null =>
+    (subjectId && subjects.find(subject => subject.id === subjectId)) || null;
+
+// The subject picked last on this device, offered again as the quick pick.
+export const loadLastSubjectId = (): string | null => {
+    try {
+        return localStorage.getItem(LAST_SUBJECT_STORAGE_KEY);
+    } catch (error) {
+        console.error("Could not read the last subject:", error);
+        return null;
+    }
+};
+
+export const saveLastSubjectId = (subjectId: string | null) => {
+    try {
+        if (subjectId) localStorage.setItem(LAST_SUBJECT_STORAGE_KEY, subjectId);
+        else localStorage.removeItem(LAST_SUBJECT_STORAGE_KEY);
+    } catch (error) {
+        console.error("Could not save the last subject:", error);
+    }
+};
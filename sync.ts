@@ -0,0 +1,228 @@
+// sync.ts
+import { DEFAULT_DAY_BOUNDARY } from './dates';
+import { parseMessage } from './messages';
+import { getDefaultProfile } from './profiles';
+import { NewStudyDate } from './studyDates';
+import { Character, CharacterClaim, ClaimResult, DailyStats, DailyStatsByDate, FocusState, Goals, InboxItem, PartnerMessage, PauseInterval, Profile, Profiles, RoomSettings, SessionRecord, SessionState, StatsOwner, StudyDate, StudyDateStatus, Subject, Task, UserStatus } from './types';
+
+export type Unsubscribe = () => void;
+export type ErrorHandler = (error: Error) => void;
+
+export type NewSessionRecord = Omit<SessionRecord, 'id'>;
+
+/**
+ * Everything the app needs from the realtime database, described in terms of
+ * rooms, presence, session state, messages and stats rather than raw paths.
+ * Implementations must keep the same data layout so they stay interchangeable.
+ */
+export interface SyncBackend {
+    readonly name: 'firebase' | 'local';
+
+    // --- Connection ---
+    // Resolves to the uid, reusing the identity this device is already signed in with.
+    signIn(): Promise<string>;
+    onConnectionChange(callback: (connected: boolean) => void, onError?: ErrorHandler): Unsubscribe;
+    // Milliseconds to add to the device clock to get the server clock.
+    onServerTimeOffset(callback: (offset: number) => void): Unsubscribe;
+
+    // --- Identity ---
+    // The email linked to the current identity, or null while it is anonymous.
+    getLinkedEmail(): string | null;
+    // Attaches an email and password to the current identity, so it can be signed back into
+    // after the browser data is cleared or from another device.
+    linkEmail(email: string, password: string): Promise<void>;
+    // Swaps the current identity for the one linked to `email`. Resolves to its uid.
+    signInWithEmail(email: string, password: string): Promise<string>;
+
+    // --- Rooms ---
+    // Resolves to the new room id, or null when the pairing code is already taken.
+    // The signed-in identity becomes the room's first member.
+    createRoom(pairingCode: string): Promise<string | null>;
+    findRoomByCode(pairingCode: string): Promise<string | null>;
+    // Makes the signed-in identity a member of the room, which it needs to read the room or claim
+    // a character there. The pairing code is the proof the database rules check.
+    joinRoom(roomId: string, pairingCode: string): Promise<void>;
+
+    // Shared settings of the couple, with defaults filled in for anything not set yet.
+    onRoomSettings(roomId: string, callback: (settings: RoomSettings) => void, onError?: ErrorHandler): Unsubscribe;
+    updateRoomSettings(roomId: string, settings: Partial<RoomSettings>): Promise<void>;
+
+    // --- Presence ---
+    // Registers this device as one of the user's connections until it drops or is unsubscribed.
+    // A running session is left in place, see sendHeartbeat.
+    connectPresence(roomId: string, character: Character, deviceId: string): Unsubscribe;
+
+    // --- Profiles ---
+    // Both profiles of the room, with defaults for anyone who has not set theirs up.
+    onProfiles(roomId: string, callback: (profiles: Profiles) => void, onError?: ErrorHandler): Unsubscribe;
+    updateProfile(roomId: string, character: Character, profile: Profile): Promise<void>;
+
+    // --- Session state ---
+    getUserStatus(roomId: string, character: Character): Promise<UserStatus | null>;
+    onUserStatus(roomId: string, character: Character, callback: (status: UserStatus | null) => void, onError?: ErrorHandler): Unsubscribe;
+    // Binds the character to `uid`. Refused when `uid` already holds the partner character, or when
+    // another uid holds it, unless `takeOver` hands it to `uid` anyway. That only works while none of
+    // the holder's devices is connected; a holder's device that comes back sees the claim change and lets go.
+    claimCharacter(roomId: string, character: Character, uid: string, takeOver: boolean): Promise<ClaimResult>;
+    onCharacterClaim(roomId: string, character: Character, callback: (claim: CharacterClaim | null) => void, onError?: ErrorHandler): Unsubscribe;
+    // Overwrites every session field, so writing the same state twice is harmless.
+    writeSession(roomId: string, character: Character, session: SessionState): Promise<void>;
+    // Saves the session record under `recordId` and books its totals on the daily stats in one write,
+    // along with its share of a study date, and takes its completed tasks off the checklist.
+    // With `resetStatus` the same write also returns the user to idle.
+    endSession(roomId: string, character: Character, recordId: string, record: NewSessionRecord, resetStatus: boolean): Promise<void>;
+    hasSessionRecord(roomId: string, character: Character, recordId: string): Promise<boolean>;
+    sendHeartbeat(roomId: string, character: Character, at: number): Promise<void>;
+
+    // --- Inbox ---
+    // Appends to the recipient's inbox as unread; nothing already there is touched.
+    sendMessage(roomId: string, recipient: Character, message: PartnerMessage): Promise<void>;
+    // The most recent inbox items of one person, newest first.
+    onInbox(roomId: string, character: Character, limit: number, callback: (items: InboxItem[]) => void, onError?: ErrorHandler): Unsubscribe;
+    // Every unread inbox item, newest first. Both skip anything that is not a valid message.
+    onUnreadInbox(roomId: string, character: Character, callback: (items: InboxItem[]) => void, onError?: ErrorHandler): Unsubscribe;
+    markInboxRead(roomId: string, character: Character, itemIds: string[]): Promise<void>;
+
+    // --- Stats ---
+    onDailyStats(roomId: string, date: string, callback: (stats: DailyStats) => void, onError?: ErrorHandler): Unsubscribe;
+    // Every stats node from `from` to `to` (inclusive date strings); days without stats are left out.
+    onDailyStatsRange(roomId: string, from: string, to: string, callback: (stats: DailyStatsByDate) => void, onError?: ErrorHandler): Unsubscribe;
+
+    // --- Goals ---
+    onGoals(roomId: string, callback: (goals: Goals) => void, onError?: ErrorHandler): Unsubscribe;
+    // A null goal clears it.
+    setGoal(roomId: string, owner: StatsOwner, minutes: number | null): Promise<void>;
+
+    // --- Tasks ---
+    // One person's checklist, oldest first.
+    onTasks(roomId: string, character: Character, callback: (tasks: Task[]) => void, onError?: ErrorHandler): Unsubscribe;
+    addTask(roomId: string, character: Character, text: string): Promise<void>;
+    setTaskDone(roomId: string, character: Character, taskId: string, done: boolean): Promise<void>;
+    removeTask(roomId: string, character: Character, taskId: string): Promise<void>;
+
+    // --- Subjects ---
+    // The couple's subjects, sorted by name.
+    onSubjects(roomId: string, callback: (subjects: Subject[]) => void, onError?: ErrorHandler): Unsubscribe;
+    // Resolves to the id of the new subject.
+    addSubject(roomId: string, subject: Omit<Subject, 'id'>): Promise<string>;
+    // Past sessions keep their subject id; the stats show them as a removed subject.
+    removeSubject(roomId: string, subjectId: string): Promise<void>;
+
+    // --- Study dates ---
+    // Every study date of the room, soonest first.
+    onStudyDates(roomId: string, callback: (dates: StudyDate[]) => void, onError?: ErrorHandler): Unsubscribe;
+    // Resolves to the id of the new, pending date.
+    proposeStudyDate(roomId: string, date: NewStudyDate): Promise<string>;
+    setStudyDateStatus(roomId: string, dateId: string, status: StudyDateStatus): Promise<void>;
+
+    // --- History ---
+    // The most recent sessions of one person, newest first.
+    onSessionHistory(roomId: string, character: Character, limit: number, callback: (records: SessionRecord[]) => void, onError?: ErrorHandler): Unsubscribe;
+}
+
+// Fields reset when a user ends a session.
+export const IDLE_SESSION_FIELDS = {
+    focusState: FocusState.Idle,
+    focusStartTime: null,
+    totalPausedTime: null,
+    lastPauseStartTime: null,
+    pauseIntervals: null,
+    intervalSchedule: null,
+    subjectId: null,
+    awayCount: null,
+    awayMs: null,
+    ownerDeviceId: null,
+    lastHeartbeat: null,
+};
+
+export const toRoomSettings = (data: any): RoomSettings => ({
+    dayBoundary: data?.dayBoundary || DEFAULT_DAY_BOUNDARY,
+});
+
+export const getPartnerCharacter = (character: Character): Character =>
+    character === Character.Flynn ? Character.Rapunzel : Character.Flynn;
+
+export const toCharacterClaim = (data: any): CharacterClaim | null =>
+    data && typeof data.uid === 'string' ? { uid: data.uid, claimedAt: data.claimedAt || 0 } : null;
+
+// Lists are stored as push-keyed objects; this turns one back into an array.
+export const toList = <T>(data: { [key: string]: T } | null | undefined): T[] => (data ? Object.values(data) : []);
+
+// Session records keyed by id, newest first.
+export const toSessionRecords = (data: { [id: string]: NewSessionRecord } | null | undefined): SessionRecord[] =>
+    Object.keys(data || {})
+        .map(id => ({
+            ...data![id],
+            id,
+            pauses: data![id].pauses || [],
+            subjectId: data![id].subjectId || null,
+            completedTasks: data![id].completedTasks || [],
+            awayCount: data![id].awayCount ?? null,
+            awaySeconds: data![id].awaySeconds ?? null,
+        }))
+        .sort((a, b) => b.startTime - a.startTime);
+
+// Inbox items keyed by id, newest first, without the ones whose message does not validate.
+export const toInboxItems = (data: { [id: string]: any } | null | undefined): InboxItem[] =>
+    Object.keys(data || {})
+        .map(id => {
+            const message = parseMessage(data![id].message);
+            if (!message) console.warn(`Skipping inbox item ${id}: not a valid message.`);
+            return message ? { id, message, sentAt: data![id].sentAt || 0, read: !!data![id].read } : null;
+        })
+        .filter((item): item is InboxItem => item !== null)
+        .sort((a, b) => b.sentAt - a.sentAt);
+
+export const toProfiles = (data: { [character: string]: Partial<Profile> } | null | undefined): Profiles => {
+    const toProfile = (character: Character): Profile => {
+        const saved = data?.[character] || {};
+        const fallback = getDefaultProfile(character);
+        return {
+            displayName: typeof saved.displayName === 'string' && saved.displayName.trim() ? saved.displayName : fallback.displayName,
+            emoji: typeof saved.emoji === 'string' ? saved.emoji : fallback.emoji,
+            avatar: saved.avatar || fallback.avatar,
+            status: typeof saved.status === 'string' ? saved.status : fallback.status,
+        };
+    };
+    return { [Character.Flynn]: toProfile(Character.Flynn), [Character.Rapunzel]: toProfile(Character.Rapunzel) };
+};
+
+export const toTasks = (data: { [id: string]: Omit<Task, 'id'> } | null | undefined): Task[] =>
+    Object.keys(data || {})
+        // A tick racing a removal can leave a stray `done` behind; it is not a task.
+        .filter(id => typeof data![id].text === 'string')
+        .map(id => ({ ...data![id], id, done: !!data![id].done }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+export const toSubjects = (data: { [id: string]: Omit<Subject, 'id'> } | null | undefined): Subject[] =>
+    Object.keys(data || {})
+        .map(id => ({ ...data![id], id }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+// Study dates keyed by id, soonest first.
+export const toStudyDates = (data: { [id: string]: any } | null | undefined): StudyDate[] =>
+    Object.keys(data || {})
+        .map(id => ({ ...data![id], id, topic: data![id].topic || null, jointSeconds: data![id].jointSeconds || {} }))
+        .sort((a, b) => a.startTime - b.startTime);
+
+// Session fields come from the user node, presence from the connections of each of the person's devices.
+export const toUserStatus = (data: any, connections: { [connectionId: string]: { deviceId: string } } | null | undefined): UserStatus | null => {
+    if (!data && !connections) return null;
+    data = data || {};
+    const onlineDeviceIds = Array.from(new Set(toList(connections).map(connection => connection.deviceId)));
+    return {
+        isOnline: onlineDeviceIds.length > 0,
+        onlineDeviceIds,
+        focusState: data.focusState || FocusState.Idle,
+        focusStartTime: data.focusStartTime || null,
+        totalPausedTime: data.totalPausedTime || null,
+        lastPauseStartTime: data.lastPauseStartTime || null,
+        pauseIntervals: toList<PauseInterval>(data.pauseIntervals).sort((a, b) => a.start - b.start),
+        intervalSchedule: data.intervalSchedule || null,
+        subjectId: data.subjectId || null,
+        awayCount: data.awayCount ?? null,
+        awayMs: data.awayMs ?? null,
+        ownerDeviceId: data.ownerDeviceId || null,
+        lastHeartbeat: data.lastHeartbeat || null,
+    };
+};
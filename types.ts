@@ -15,22 +15,187 @@ export enum SessionType {
     Joint = 'JOINT',
 }
 
-export enum RewardType {
-    Kisses = 'KISSES',
-    Hugs = 'HUGS',
-    Praise = 'PRAISE',
-    Heart = 'HEART'
+export enum IntervalPhase {
+    Work = 'WORK',
+    ShortBreak = 'SHORT_BREAK',
+    LongBreak = 'LONG_BREAK',
 }
 
-export type Reward = {
-    type: RewardType;
-    message?: string;
-    audioBase64?: string;
-    from: Character;
+export type IntervalSettings = {
+    workMinutes: number;
+    shortBreakMinutes: number;
+    longBreakMinutes: number;
+    // A long break replaces the short one after this many work phases.
+    cyclesBeforeLongBreak: number;
 };
 
-export type GreetingMessage = {
-    from: Character;
-    content: string;
-    type: 'GREETING';
-};
\ No newline at end of file
+// Settings anchored to the moment the first work phase began, shared by everyone in the session.
+export type IntervalSchedule = IntervalSettings & {
+    startTime: number;
+};
+
+// A voice note kept in blob storage; see blobs.ts.
+export type VoiceNoteRef = {
+    blobId: string;
+    durationSeconds: number;
+    mimeType: string;
+    size: number;
+};
+
+export type Reaction = 'heart' | 'kisses' | 'hugs';
+
+// Everything partners send each other. `v` is the protocol version it was written with, see messages.ts.
+export type PartnerMessage = { v: number; from: Character } & (
+    | { type: 'greeting'; text: string }
+    | { type: 'praise'; text: string }
+    | { type: 'reaction'; reaction: Reaction }
+    | { type: 'voice'; note: VoiceNoteRef }
+    | { type: 'nudge' }
+    | { type: 'session-invite' }
+    | { type: 'text'; text: string }
+    | { type: 'study-date'; dateId: string; startTime: number; plannedMinutes: number; topic: string | null }
+);
+
+export type MessageType = PartnerMessage['type'];
+
+export type MessageOfType<T extends MessageType> = Extract<PartnerMessage, { type: T }>;
+
+// A message as written by the sender, before the protocol fields are filled in.
+export type MessageDraft = PartnerMessage extends infer M ? M extends PartnerMessage ? Omit<M, 'v' | 'from'> : never : never;
+
+export type InboxItem = {
+    id: string;
+    message: PartnerMessage;
+    sentAt: number;
+    read: boolean;
+};
+
+// A course the couple studies, picked before a session starts.
+export type Subject = {
+    id: string;
+    name: string;
+    emoji: string;
+    color: string;
+};
+
+export type Room = {
+    roomId: string;
+    pairingCode: string;
+};
+
+// Which identity plays a character in a room. A character has one holder at a time.
+export type CharacterClaim = {
+    uid: string;
+    claimedAt: number;
+};
+
+// How a claim attempt ended. An identity plays one character, so it can never hold its partner's as well.
+export type ClaimResult = 'claimed' | 'heldByOther' | 'holdsPartner';
+
+export type PauseInterval = {
+    start: number;
+    end: number;
+};
+
+export type UserStatus = {
+    // Online while at least one of the person's devices is connected.
+    isOnline: boolean;
+    onlineDeviceIds: string[];
+    focusState: FocusState;
+    focusStartTime: number | null;
+    totalPausedTime: number | null;
+    lastPauseStartTime: number | null;
+    // Pauses already resumed in the current session, oldest first.
+    pauseIntervals: PauseInterval[];
+    intervalSchedule: IntervalSchedule | null;
+    subjectId: string | null;
+    // How often and how long the user left the app while focusing; null when this is not tracked.
+    awayCount: number | null;
+    awayMs: number | null;
+    // The device running the session. Only it acts on the session; the others mirror the timer.
+    ownerDeviceId: string | null;
+    // Written regularly while a session runs, so a session left behind shows when it stopped.
+    lastHeartbeat: number | null;
+};
+
+// A user's status without presence and heartbeat: the part a session action changes.
+export type SessionState = Omit<UserStatus, 'isOnline' | 'onlineDeviceIds' | 'lastHeartbeat'>;
+
+// One item of a person's checklist. Unfinished items stay on the list from session to session.
+export type Task = {
+    id: string;
+    text: string;
+    done: boolean;
+    createdAt: number;
+};
+
+export type CompletedTask = Pick<Task, 'id' | 'text'>;
+
+export type SessionRecord = {
+    id: string;
+    character: Character;
+    // Who the joint overlap was shared with, or null for a solo session.
+    partner: Character | null;
+    // Cycle date the session is booked on, see getCycleDateString.
+    date: string;
+    startTime: number;
+    endTime: number;
+    pauses: PauseInterval[];
+    focusSeconds: number;
+    jointSeconds: number;
+    subjectId: string | null;
+    awayCount: number | null;
+    awaySeconds: number | null;
+    // Checklist items ticked off by the end of the session; they leave the list with it.
+    completedTasks: CompletedTask[];
+    // The study date whose slot part of the joint time fell in, and how much of it did.
+    studyDateId?: string | null;
+    studyDateSeconds?: number;
+};
+
+// Which pixel portrait stands for a person, see PROFILE_AVATARS.
+export type ProfileAvatar = 'flynn' | 'rapunzel' | 'together';
+
+// How a person shows up to their partner. Each person edits only their own.
+export type Profile = {
+    displayName: string;
+    emoji: string;
+    avatar: ProfileAvatar;
+    status: string;
+};
+
+export type Profiles = Record<Character, Profile>;
+
+export type StatsOwner = Character | 'joint';
+
+// Focus seconds per subject sit next to the total; time without a subject is only in the total.
+export type DailyStats = Partial<Record<StatsOwner, { totalFocusTime: number; subjects?: { [subjectId: string]: number } }>>;
+
+export type DailyStatsByDate = { [date: string]: DailyStats };
+
+// When a couple's day starts: the wall-clock hour in their reference timezone.
+export type DayBoundary = {
+    timeZone: string;
+    rolloverHour: number;
+};
+
+export type RoomSettings = {
+    dayBoundary: DayBoundary;
+};
+
+// Daily focus goals in minutes, per person and for joint time.
+export type Goals = Partial<Record<StatsOwner, number>>;
+
+export type StudyDateStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+// A joint session planned ahead by one partner, which the other accepts or declines.
+export type StudyDate = {
+    id: string;
+    proposedBy: Character;
+    startTime: number;
+    plannedMinutes: number;
+    topic: string | null;
+    status: StudyDateStatus;
+    // Joint seconds spent inside the slot, as booked by each partner's sessions. See studyDates.ts.
+    jointSeconds: Partial<Record<Character, number>>;
+};